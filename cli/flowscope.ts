@@ -0,0 +1,121 @@
+import { stat, writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { analyzeSource } from '@/lib/github-analyzer'
+import { AnalysisOptions, ComplexityThresholds, PageMetric } from '@/types/analysis'
+import { PAGE_METRICS } from '@/lib/code-metrics'
+import { GRAPH_FORMATS, GraphFormat, serializeGraph } from '@/lib/graph-serializers'
+import { createFileSystemProvider } from './fs-provider'
+
+const USAGE = `Usage: flowscope analyze <directory> [options]
+
+Analyzes the navigation flow of a React or Next.js project and prints
+the FlowAnalysisResult as JSON, or the navigation graph as a diagram.
+
+Options:
+  -o, --out <file>      Write the output to a file instead of stdout
+  -f, --format <name>   json (default), mermaid, dot or plantuml
+  -i, --include <glob>  Only analyze matching files (repeatable)
+  -x, --exclude <glob>  Skip matching files (repeatable, replaces the defaults)
+  -t, --threshold <metric>=<medium>,<high>
+                        Complexity thresholds for one metric (repeatable), e.g.
+                        linesOfCode=100,250. Metrics: ${PAGE_METRICS.join(', ')}
+      --compact         Emit single-line JSON
+  -h, --help            Show this help`
+
+type OutputFormat = 'json' | GraphFormat
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', ...GRAPH_FORMATS.map(entry => entry.format)]
+
+async function analyzeCommand(directory: string, out: string | undefined, format: OutputFormat, compact: boolean, options: AnalysisOptions): Promise<void> {
+  const info = await stat(directory).catch(() => null)
+  if (!info?.isDirectory()) {
+    throw new Error(`Not a directory: ${directory}`)
+  }
+
+  // File contents only feed the web app's source viewer; they would bloat the CLI output
+  const { sources: _sources, ...result } = await analyzeSource(createFileSystemProvider(directory), options)
+  const output = format === 'json'
+    ? JSON.stringify(result, null, compact ? undefined : 2) + '\n'
+    : serializeGraph(result, format)
+
+  if (out) {
+    await writeFile(out, output, 'utf8')
+    const connections = result.pages.reduce((acc, page) => acc + page.connections.length, 0)
+    console.error(`Found ${result.pages.length} pages, ${result.routes.length} routes and ${connections} connections. Wrote ${out}`)
+  } else {
+    process.stdout.write(output)
+  }
+
+  if (result.failedFiles) {
+    console.error(`Warning: ${result.failedFiles} files could not be read; pages and links in them are missing`)
+  }
+
+  for (const page of result.pages) {
+    for (const link of page.brokenLinks ?? []) {
+      console.error(`Broken link: ${page.filePath}:${link.location.startLine}:${link.location.startColumn} -> ${link.target}${link.condition ? ` if ${link.condition}` : ''} (no matching route)`)
+    }
+  }
+}
+
+// Parses repeated --threshold values such as hookCount=4,8
+function parseThresholds(values: string[]): Partial<ComplexityThresholds> {
+  const thresholds: Partial<ComplexityThresholds> = {}
+  for (const value of values) {
+    const match = value.match(/^(\w+)=(\d+),(\d+)$/)
+    if (!match || !PAGE_METRICS.includes(match[1] as PageMetric)) {
+      throw new Error(`Invalid threshold: ${value}. Expected <metric>=<medium>,<high> with a metric from ${PAGE_METRICS.join(', ')}`)
+    }
+    const [medium, high] = [Number(match[2]), Number(match[3])]
+    if (medium > high) throw new Error(`Invalid threshold: ${value}. The medium threshold cannot exceed the high one`)
+    thresholds[match[1] as PageMetric] = { medium, high }
+  }
+  return thresholds
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      include: { type: 'string', short: 'i', multiple: true },
+      exclude: { type: 'string', short: 'x', multiple: true },
+      threshold: { type: 'string', short: 't', multiple: true },
+      compact: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  const [command, directory] = positionals
+  if (values.help || !command) {
+    console.error(USAGE)
+    return values.help ? 0 : 1
+  }
+  if (command !== 'analyze' || !directory) {
+    console.error(command !== 'analyze' ? `Unknown command: ${command}\n\n${USAGE}` : USAGE)
+    return 1
+  }
+
+  const format = values.format as OutputFormat
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Unknown format: ${values.format}. Expected one of ${OUTPUT_FORMATS.join(', ')}`)
+    return 1
+  }
+
+  await analyzeCommand(directory, values.out, format, !!values.compact, {
+    include: values.include,
+    exclude: values.exclude,
+    complexityThresholds: parseThresholds(values.threshold ?? [])
+  })
+  return 0
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code
+  })
+  .catch(error => {
+    console.error(`flowscope: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  })
@@ -0,0 +1,34 @@
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { isIgnoredPath, SourceProvider } from '@/lib/source-providers'
+
+export function createFileSystemProvider(root: string): SourceProvider {
+  const absoluteRoot = path.resolve(root)
+
+  async function walk(directory: string, prefix: string, files: string[]): Promise<void> {
+    const entries = await readdir(directory, { withFileTypes: true })
+    for (const entry of entries) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (isIgnoredPath(relativePath)) continue
+      if (entry.isDirectory()) {
+        await walk(path.join(directory, entry.name), relativePath, files)
+      } else if (entry.isFile()) {
+        files.push(relativePath)
+      }
+    }
+  }
+
+  return {
+    type: 'directory',
+    name: path.basename(absoluteRoot),
+    url: absoluteRoot,
+    async listFiles() {
+      const files: string[] = []
+      await walk(absoluteRoot, '', files)
+      return files.sort()
+    },
+    async readFile(filePath: string) {
+      return readFile(path.join(absoluteRoot, ...filePath.split('/')), 'utf8')
+    }
+  }
+}
@@ -2,29 +2,72 @@ import { useState } from 'react'
 import { Toaster } from '@/components/ui/toaster'
 import Dashboard from '@/components/Dashboard'
 import PageFlowVisualizer from '@/components/PageFlowVisualizer'
-import { FlowAnalysisResult } from '@/types/analysis'
+import { AnalysisDiff, AnalysisHistoryEntry, CanvasLayout, FlowAnalysisResult } from '@/types/analysis'
+import { applyCanvasLayout, saveAnalysisToHistory, saveCanvasLayout } from '@/lib/analysis-history'
+import { diffAnalyses, orderForDiff } from '@/lib/analysis-diff'
 
 function App() {
   const [currentView, setCurrentView] = useState<'dashboard' | 'visualizer'>('dashboard')
   const [analysisResult, setAnalysisResult] = useState<FlowAnalysisResult | null>(null)
+  const [historyEntry, setHistoryEntry] = useState<{ id: string; layout?: CanvasLayout } | null>(null)
+  const [analysisDiff, setAnalysisDiff] = useState<AnalysisDiff | null>(null)
 
   const handleAnalysisComplete = (result: FlowAnalysisResult) => {
     setAnalysisResult(result)
+    setHistoryEntry(null)
+    setAnalysisDiff(null)
+    setCurrentView('visualizer')
+    if (result.mode === 'demo') return
+
+    // History is best effort: private browsing or a full quota must not block the analysis
+    saveAnalysisToHistory(result)
+      .then(entry => setHistoryEntry({ id: entry.id, layout: entry.layout }))
+      .catch(error => console.warn('Failed to save analysis to history:', error))
+  }
+
+  const handleOpenRecent = (entry: AnalysisHistoryEntry) => {
+    setAnalysisResult(applyCanvasLayout(entry.result, entry.layout))
+    setHistoryEntry({ id: entry.id, layout: entry.layout })
+    setAnalysisDiff(null)
+    setCurrentView('visualizer')
+  }
+
+  // Comparisons are not stored in history; the canvas shows the merged view
+  const handleCompare = (first: FlowAnalysisResult, second: FlowAnalysisResult) => {
+    const diff = diffAnalyses(...orderForDiff(first, second))
+    setAnalysisResult(diff.view)
+    setHistoryEntry(null)
+    setAnalysisDiff(diff)
     setCurrentView('visualizer')
   }
 
+  const handleLayoutChange = (layout: CanvasLayout) => {
+    if (!historyEntry) return
+    saveCanvasLayout(historyEntry.id, layout)
+      .catch(error => console.warn('Failed to save canvas layout:', error))
+  }
+
   const handleBackToDashboard = () => {
     setCurrentView('dashboard')
     setAnalysisResult(null)
+    setHistoryEntry(null)
+    setAnalysisDiff(null)
   }
 
   return (
     <div className="min-h-screen bg-background">
       {currentView === 'dashboard' ? (
-        <Dashboard onAnalysisComplete={handleAnalysisComplete} />
+        <Dashboard
+          onAnalysisComplete={handleAnalysisComplete}
+          onOpenRecent={handleOpenRecent}
+          onCompare={handleCompare}
+        />
       ) : (
-        <PageFlowVisualizer 
-          analysisResult={analysisResult!} 
+        <PageFlowVisualizer
+          analysisResult={analysisResult!}
+          diff={analysisDiff ?? undefined}
+          initialZoom={historyEntry?.layout?.zoom}
+          onLayoutChange={handleLayoutChange}
           onBack={handleBackToDashboard}
         />
       )}
@@ -33,4 +76,4 @@ function App() {
   )
 }
 
-export default App
\ No newline at end of file
+export default App
@@ -0,0 +1,42 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, PlayCircle, RotateCcw, X } from 'lucide-react'
+import { AnalysisError } from '@/types/analysis'
+import { analysisErrorTitle } from '@/lib/analysis-error'
+
+interface AnalysisErrorPanelProps {
+  error: AnalysisError
+  onRetry: () => void
+  onTryDemo: () => void
+  onDismiss: () => void
+}
+
+export default function AnalysisErrorPanel({ error, onRetry, onTryDemo, onDismiss }: AnalysisErrorPanelProps) {
+  return (
+    <Alert variant="destructive" className="text-left">
+      <AlertTriangle className="w-4 h-4" />
+      <AlertTitle className="flex items-center justify-between">
+        {analysisErrorTitle(error)}
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="h-6 w-6 p-0" aria-label="Dismiss">
+          <X className="w-4 h-4" />
+        </Button>
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{error.message}</p>
+        {error.resetAt && (
+          <p className="text-xs">Quota resets at {new Date(error.resetAt).toLocaleTimeString()}.</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant={error.retryable ? 'default' : 'outline'} onClick={onRetry}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+          <Button size="sm" variant="outline" onClick={onTryDemo}>
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Explore the demo instead
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -1,24 +1,102 @@
-import { useState } from 'react'
+import { Fragment, useRef, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { GitBranch, Upload, Zap, Eye, ArrowRight, Github } from 'lucide-react'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { GitBranch, Upload, Zap, Eye, ArrowRight, Github, FolderOpen, FileArchive, FileJson, GitCompare, SlidersHorizontal, Gauge, X } from 'lucide-react'
 import { useToast } from '@/hooks/use-toast'
-import { FlowAnalysisResult } from '@/types/analysis'
-import { analyzeGitHubRepo } from '@/lib/github-analyzer'
+import RecentAnalyses from '@/components/RecentAnalyses'
+import GitRefSelect from '@/components/GitRefSelect'
+import GitHubSettings, { RateLimitBadge } from '@/components/GitHubSettings'
+import AnalysisErrorPanel from '@/components/AnalysisErrorPanel'
+import { AnalysisError, AnalysisHistoryEntry, AnalysisOptions, AnalysisProgress, ComplexityThresholds, FlowAnalysisResult, GitRef, PageMetric } from '@/types/analysis'
+import { DEFAULT_EXCLUDE_GLOBS } from '@/lib/source-files'
+import { createDemoAnalysis } from '@/lib/demo-analysis'
+import { analyzeGitHubRepoInWorker, analyzeSourceInWorker } from '@/lib/analysis-client'
+import { toAnalysisError } from '@/lib/analysis-error'
+import { describeProgress, progressPercent } from '@/lib/analysis-progress'
+import { parseGlobList } from '@/lib/glob'
+import { DEFAULT_COMPLEXITY_THRESHOLDS, PAGE_METRICS, PAGE_METRIC_LABELS } from '@/lib/code-metrics'
+import { ANALYSIS_FILE_EXTENSION, readAnalysisFile } from '@/lib/analysis-file'
+import {
+  SourceProvider,
+  createFileListProvider,
+  createInputDirectoryProvider,
+  createZipProvider,
+  pickDirectoryProvider,
+  readDroppedItems,
+  supportsDirectoryPicker
+} from '@/lib/source-providers'
 
 interface DashboardProps {
   onAnalysisComplete: (result: FlowAnalysisResult) => void
+  onOpenRecent: (entry: AnalysisHistoryEntry) => void
+  onCompare: (first: FlowAnalysisResult, second: FlowAnalysisResult) => void
 }
 
-export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
+export default function Dashboard({ onAnalysisComplete, onOpenRecent, onCompare }: DashboardProps) {
   const [repoUrl, setRepoUrl] = useState('')
+  const [selectedRef, setSelectedRef] = useState<GitRef | null>(null)
+  const [includeGlobs, setIncludeGlobs] = useState('')
+  const [excludeGlobs, setExcludeGlobs] = useState(DEFAULT_EXCLUDE_GLOBS.join('\n'))
+  const [complexityThresholds, setComplexityThresholds] = useState<ComplexityThresholds>(DEFAULT_COMPLEXITY_THRESHOLDS)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [analysisStep, setAnalysisStep] = useState('')
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const zipInputRef = useRef<HTMLInputElement>(null)
+  const analysisInputRef = useRef<HTMLInputElement>(null)
+  const compareInputRef = useRef<HTMLInputElement>(null)
   const { toast } = useToast()
 
+  const getAnalysisOptions = (): AnalysisOptions => ({
+    include: parseGlobList(includeGlobs),
+    exclude: parseGlobList(excludeGlobs),
+    complexityThresholds
+  })
+
+  const updateThreshold = (metric: PageMetric, level: 'medium' | 'high', value: string) => {
+    const parsed = Math.max(0, Math.floor(Number(value) || 0))
+    setComplexityThresholds(current => ({ ...current, [metric]: { ...current[metric], [level]: parsed } }))
+  }
+
+  // Each run gets its own controller so Cancel only ever aborts the run in progress
+  const startRun = () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsAnalyzing(true)
+    setAnalysisError(null)
+    setProgress(null)
+    return { signal: controller.signal, onProgress: setProgress }
+  }
+
+  const finishRun = () => {
+    abortRef.current = null
+    setIsAnalyzing(false)
+    setProgress(null)
+  }
+
+  const completeAnalysis = (result: FlowAnalysisResult) => {
+    onAnalysisComplete(result)
+    toast(result.partial ? {
+      title: "Partial analysis",
+      description: result.failedFiles
+        ? `${result.failedFiles} files could not be read: found ${result.pages.length} pages and ${result.routes.length} routes in the rest`
+        : `Cancelled after reading ${result.analyzedFiles} files: found ${result.pages.length} pages and ${result.routes.length} routes`
+    } : {
+      title: "Analysis complete!",
+      description: `Found ${result.pages.length} pages and ${result.routes.length} routes in ${result.repoName}`
+    })
+  }
+
   const handleAnalyze = async () => {
     if (!repoUrl.trim()) {
       toast({
@@ -29,74 +107,142 @@ export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
       return
     }
 
-    setIsAnalyzing(true)
-    setAnalysisStep('Validating repository URL...')
-    
+    const run = startRun()
     try {
-      // Add progress updates
-      setAnalysisStep('Fetching repository contents...')
-      await new Promise(resolve => setTimeout(resolve, 500)) // Brief delay for UX
-      
-      setAnalysisStep('Analyzing React components...')
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      setAnalysisStep('Detecting routing patterns...')
-      const result = await analyzeGitHubRepo(repoUrl)
-      
-      setAnalysisStep('Building navigation graph...')
-      await new Promise(resolve => setTimeout(resolve, 300))
-      
-      onAnalysisComplete(result)
-      
-      // Check if this is demo data due to API limitations
-      const isDemo = result.pages.some(page => 
-        page.preview?.description?.includes('Demo data') || 
-        page.preview?.description?.includes('API unavailable')
-      )
-      
-      if (isDemo) {
-        toast({
-          title: "Demo visualization ready!",
-          description: `Showing sample flow with ${result.pages.length} pages. GitHub API was unavailable.`,
-          variant: "default"
-        })
-      } else {
-        toast({
-          title: "Analysis complete!",
-          description: `Found ${result.pages.length} pages and ${result.routes.length} routes`
-        })
-      }
+      const result = await analyzeGitHubRepoInWorker(repoUrl, { ...getAnalysisOptions(), ...run, ref: selectedRef ?? undefined })
+      completeAnalysis(result)
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to analyze repository"
-      
-      // If error contains demo data, still proceed to show visualization
-      if (errorMessage.includes('Showing demo visualization')) {
-        try {
-          // Try to get demo data from the error context
-          const result = await analyzeGitHubRepo(repoUrl)
-          onAnalysisComplete(result)
-          toast({
-            title: "Demo visualization loaded",
-            description: "GitHub API unavailable. Showing sample navigation flow.",
-            variant: "default"
-          })
-        } catch (demoError) {
-          toast({
-            title: "Analysis failed",
-            description: errorMessage,
-            variant: "destructive"
-          })
-        }
+      const analysisError = toAnalysisError(error)
+      if (analysisError.code === 'cancelled') {
+        toast({ title: "Analysis cancelled", description: analysisError.message })
       } else {
-        toast({
-          title: "Analysis failed",
-          description: errorMessage,
-          variant: "destructive"
-        })
+        console.error('Repository analysis failed:', error)
+        setAnalysisError(analysisError)
       }
     } finally {
-      setIsAnalyzing(false)
-      setAnalysisStep('')
+      finishRun()
+    }
+  }
+
+  const handleTryDemo = (error?: AnalysisError) => {
+    onAnalysisComplete(createDemoAnalysis(error))
+    toast({
+      title: "Demo loaded",
+      description: "This is a sample app, not an analysis of your project"
+    })
+  }
+
+  const handleAnalyzeLocal = async (loadProvider: () => Promise<SourceProvider>) => {
+    const run = startRun()
+    try {
+      const provider = await loadProvider()
+      const result = await analyzeSourceInWorker(provider, { ...getAnalysisOptions(), ...run })
+      completeAnalysis(result)
+    } catch (error) {
+      const analysisError = toAnalysisError(error)
+      toast({
+        title: analysisError.code === 'cancelled' ? "Analysis cancelled" : "Analysis failed",
+        description: error instanceof Error ? error.message : "Failed to read project files",
+        variant: analysisError.code === 'cancelled' ? "default" : "destructive"
+      })
+    } finally {
+      finishRun()
+    }
+  }
+
+  const handleChooseFolder = async () => {
+    if (!supportsDirectoryPicker()) {
+      folderInputRef.current?.click()
+      return
+    }
+    
+    try {
+      const provider = await pickDirectoryProvider()
+      if (provider) handleAnalyzeLocal(async () => provider)
+    } catch (error) {
+      toast({
+        title: "Folder access denied",
+        description: error instanceof Error ? error.message : "Could not open the selected folder",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length > 0) handleAnalyzeLocal(async () => createInputDirectoryProvider(files))
+  }
+
+  const handleZipInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0]
+    e.target.value = ''
+    if (archive) handleAnalyzeLocal(() => createZipProvider(archive))
+  }
+
+  const handleOpenAnalysis = async (file: File) => {
+    try {
+      const result = await readAnalysisFile(file)
+      onAnalysisComplete(result)
+      toast({
+        title: "Analysis loaded",
+        description: `${result.repoName}: ${result.pages.length} pages and ${result.routes.length} routes`
+      })
+    } catch (error) {
+      toast({
+        title: "Could not open analysis",
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleAnalysisInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) handleOpenAnalysis(file)
+  }
+
+  const handleCompareInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+    if (files.length !== 2) {
+      toast({
+        title: "Select two analyses",
+        description: "Choose exactly two saved analysis files to compare",
+        variant: "destructive"
+      })
+      return
+    }
+    
+    try {
+      const [first, second] = await Promise.all(files.map(readAnalysisFile))
+      onCompare(first, second)
+    } catch (error) {
+      toast({
+        title: "Could not open analysis",
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    if (isAnalyzing) return
+    
+    const archive = Array.from(e.dataTransfer.files).find(file => file.name.toLowerCase().endsWith('.zip'))
+    const savedAnalysis = Array.from(e.dataTransfer.files).find(file => file.name.toLowerCase().endsWith('.json'))
+    if (savedAnalysis) {
+      handleOpenAnalysis(savedAnalysis)
+    } else if (archive) {
+      handleAnalyzeLocal(() => createZipProvider(archive))
+    } else {
+      // Entries must be read while the drop event is still being dispatched
+      const droppedFiles = readDroppedItems(e.dataTransfer.items)
+      handleAnalyzeLocal(async () => createFileListProvider(await droppedFiles))
     }
   }
 
@@ -121,9 +267,13 @@ export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
                 <p className="text-sm text-slate-600">Navigation Flow Visualizer</p>
               </div>
             </div>
-            <Badge variant="secondary" className="font-mono text-xs">
-              v1.0.0-beta
-            </Badge>
+            <div className="flex items-center space-x-3">
+              <RateLimitBadge />
+              <GitHubSettings />
+              <Badge variant="secondary" className="font-mono text-xs">
+                v1.0.0-beta
+              </Badge>
+            </div>
           </div>
         </div>
       </header>
@@ -143,60 +293,265 @@ export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
           </div>
 
           {/* Upload Section */}
-          <Card className="mb-8 border-2 border-dashed border-slate-200 hover:border-primary/50 transition-colors">
+          <Card
+            className={`mb-8 border-2 border-dashed transition-colors ${
+              isDragOver ? 'border-primary bg-primary/5' : 'border-slate-200 hover:border-primary/50'
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setIsDragOver(true)
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+          >
             <CardHeader className="text-center pb-4">
               <CardTitle className="flex items-center justify-center space-x-2">
-                <Github className="w-5 h-5" />
-                <span>Analyze GitHub Repository</span>
+                <Upload className="w-5 h-5" />
+                <span>Analyze a Project</span>
               </CardTitle>
               <CardDescription>
-                Enter a GitHub repository URL to analyze its navigation structure
+                Analyze a GitHub repository, a local folder or a zip archive — or drop one (or a saved analysis) here
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="flex space-x-2">
-                <Input
-                  placeholder="https://github.com/username/repository"
-                  value={repoUrl}
-                  onChange={(e) => setRepoUrl(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  className="flex-1"
-                  disabled={isAnalyzing}
-                />
-                <Button 
-                  onClick={handleAnalyze}
-                  disabled={isAnalyzing || !repoUrl.trim()}
-                  className="px-6"
-                >
-                  {isAnalyzing ? (
-                    <>
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                      Analyzing...
-                    </>
-                  ) : (
-                    <>
-                      <Zap className="w-4 h-4 mr-2" />
-                      Analyze
-                    </>
-                  )}
-                </Button>
-              </div>
+              <Tabs defaultValue="github">
+                <TabsList className="grid w-full grid-cols-4">
+                  <TabsTrigger value="github" disabled={isAnalyzing}>
+                    <Github className="w-4 h-4 mr-2" />
+                    GitHub
+                  </TabsTrigger>
+                  <TabsTrigger value="directory" disabled={isAnalyzing}>
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Local Folder
+                  </TabsTrigger>
+                  <TabsTrigger value="zip" disabled={isAnalyzing}>
+                    <FileArchive className="w-4 h-4 mr-2" />
+                    Zip Archive
+                  </TabsTrigger>
+                  <TabsTrigger value="saved" disabled={isAnalyzing}>
+                    <FileJson className="w-4 h-4 mr-2" />
+                    Saved Analysis
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="github" className="pt-2 space-y-2">
+                  <div className="flex space-x-2">
+                    <Input
+                      placeholder="https://github.com/username/repository or a /tree/<branch> link"
+                      value={repoUrl}
+                      onChange={(e) => setRepoUrl(e.target.value)}
+                      onKeyPress={handleKeyPress}
+                      className="flex-1"
+                      disabled={isAnalyzing}
+                    />
+                    <Button 
+                      onClick={handleAnalyze}
+                      disabled={isAnalyzing || !repoUrl.trim()}
+                      className="px-6"
+                    >
+                      {isAnalyzing ? (
+                        <>
+                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                          Analyzing...
+                        </>
+                      ) : (
+                        <>
+                          <Zap className="w-4 h-4 mr-2" />
+                          Analyze
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                  <GitRefSelect
+                    repoUrl={repoUrl}
+                    value={selectedRef}
+                    onChange={setSelectedRef}
+                    disabled={isAnalyzing}
+                  />
+                </TabsContent>
+
+                <TabsContent value="directory" className="pt-2 text-center">
+                  <Button onClick={handleChooseFolder} disabled={isAnalyzing} className="px-6">
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Choose Folder
+                  </Button>
+                  <input
+                    ref={folderInputRef}
+                    type="file"
+                    className="hidden"
+                    onChange={handleFolderInput}
+                    {...{ webkitdirectory: '', directory: '' }}
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    Files are read locally in your browser; node_modules and build output are skipped
+                  </p>
+                </TabsContent>
+
+                <TabsContent value="zip" className="pt-2 text-center">
+                  <Button onClick={() => zipInputRef.current?.click()} disabled={isAnalyzing} className="px-6">
+                    <FileArchive className="w-4 h-4 mr-2" />
+                    Upload .zip
+                  </Button>
+                  <input
+                    ref={zipInputRef}
+                    type="file"
+                    accept=".zip,application/zip"
+                    className="hidden"
+                    onChange={handleZipInput}
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    Works with GitLab, Bitbucket and GitHub "Download ZIP" archives
+                  </p>
+                </TabsContent>
+
+                <TabsContent value="saved" className="pt-2 text-center">
+                  <div className="flex justify-center space-x-2">
+                    <Button onClick={() => analysisInputRef.current?.click()} disabled={isAnalyzing} className="px-6">
+                      <FileJson className="w-4 h-4 mr-2" />
+                      Open {ANALYSIS_FILE_EXTENSION}
+                    </Button>
+                    <Button variant="outline" onClick={() => compareInputRef.current?.click()} disabled={isAnalyzing}>
+                      <GitCompare className="w-4 h-4 mr-2" />
+                      Compare two files
+                    </Button>
+                  </div>
+                  <input
+                    ref={analysisInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={handleAnalysisInput}
+                  />
+                  <input
+                    ref={compareInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    multiple
+                    className="hidden"
+                    onChange={handleCompareInput}
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    Reopen an analysis saved from the flow view, or compare two snapshots of the same project
+                  </p>
+                </TabsContent>
+              </Tabs>
+              
+              <Collapsible>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-slate-600" disabled={isAnalyzing}>
+                    <SlidersHorizontal className="w-4 h-4 mr-2" />
+                    File filters
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="grid md:grid-cols-2 gap-4 pt-2">
+                  <div className="space-y-1">
+                    <Label htmlFor="include-globs" className="text-xs">Include (empty = all source files)</Label>
+                    <Textarea
+                      id="include-globs"
+                      value={includeGlobs}
+                      onChange={(e) => setIncludeGlobs(e.target.value)}
+                      placeholder={'apps/web/**\nsrc/routes/**'}
+                      className="font-mono text-xs h-24"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="exclude-globs" className="text-xs">Exclude</Label>
+                    <Textarea
+                      id="exclude-globs"
+                      value={excludeGlobs}
+                      onChange={(e) => setExcludeGlobs(e.target.value)}
+                      className="font-mono text-xs h-24"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 md:col-span-2">
+                    One glob per line or comma-separated. Patterns without a slash match file names anywhere.
+                  </p>
+                </CollapsibleContent>
+              </Collapsible>
+              
+              <Collapsible>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-slate-600" disabled={isAnalyzing}>
+                    <Gauge className="w-4 h-4 mr-2" />
+                    Complexity thresholds
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="space-y-2 pt-2">
+                  <div className="grid grid-cols-[1fr_6rem_6rem] gap-2 items-center text-xs text-slate-500">
+                    <span>Metric</span>
+                    <span>Medium from</span>
+                    <span>High from</span>
+                    {PAGE_METRICS.map(metric => (
+                      <Fragment key={metric}>
+                        <Label htmlFor={`threshold-${metric}`} className="text-xs">{PAGE_METRIC_LABELS[metric]}</Label>
+                        <Input
+                          id={`threshold-${metric}`}
+                          type="number"
+                          min={0}
+                          value={complexityThresholds[metric].medium}
+                          onChange={(e) => updateThreshold(metric, 'medium', e.target.value)}
+                          className="h-8 text-xs"
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          value={complexityThresholds[metric].high}
+                          onChange={(e) => updateThreshold(metric, 'high', e.target.value)}
+                          aria-label={`${PAGE_METRIC_LABELS[metric]} high threshold`}
+                          className="h-8 text-xs"
+                        />
+                      </Fragment>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    A page is rated at the highest level any of its metrics reaches.
+                  </p>
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setComplexityThresholds(DEFAULT_COMPLEXITY_THRESHOLDS)}>
+                    Reset to defaults
+                  </Button>
+                </CollapsibleContent>
+              </Collapsible>
               
-              {isAnalyzing && analysisStep && (
-                <div className="text-sm text-primary text-center font-medium">
-                  {analysisStep}
+              {isAnalyzing && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-primary font-medium">
+                      {progress ? describeProgress(progress) : 'Preparing analysis...'}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                      <X className="w-4 h-4 mr-1" />
+                      Cancel
+                    </Button>
+                  </div>
+                  <Progress value={progress ? progressPercent(progress) : 0} />
                 </div>
               )}
               
+              {analysisError && !isAnalyzing && (
+                <AnalysisErrorPanel
+                  error={analysisError}
+                  // The handler from this render, so retries use the current token, ref and filters
+                  onRetry={handleAnalyze}
+                  onTryDemo={() => handleTryDemo(analysisError)}
+                  onDismiss={() => setAnalysisError(null)}
+                />
+              )}
+              
               <div className="text-sm text-slate-500 text-center space-y-1">
                 <div>Supports React, Next.js, and other React-based frameworks</div>
-                <div className="text-xs text-amber-600 bg-amber-50 px-2 py-1 rounded">
-                  💡 If GitHub API is unavailable, a demo visualization will be shown
+                <div>
+                  No project at hand?{' '}
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleTryDemo()} disabled={isAnalyzing}>
+                    Try the demo
+                  </Button>
+                  {' '}with a sample e-commerce app.
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          <RecentAnalyses onOpen={onOpenRecent} onCompare={onCompare} />
+
           {/* Features Grid */}
           <div className="grid md:grid-cols-3 gap-6 mb-12">
             <Card className="hover:shadow-lg transition-shadow">
@@ -236,7 +591,7 @@ export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
               </CardHeader>
               <CardContent>
                 <p className="text-slate-600">
-                  Export flow diagrams as PNG or SVG for documentation and team sharing
+                  Export flow diagrams as SVG, PNG or PDF for documentation and team sharing
                 </p>
               </CardContent>
             </Card>
@@ -256,8 +611,8 @@ export default function Dashboard({ onAnalysisComplete }: DashboardProps) {
                   1
                 </div>
                 <div>
-                  <p className="font-medium">Enter Repository URL</p>
-                  <p className="text-sm text-slate-600">Paste the GitHub URL of your React project</p>
+                  <p className="font-medium">Choose a Source</p>
+                  <p className="text-sm text-slate-600">Paste a GitHub URL, pick a local folder or upload a zip of your React project</p>
                 </div>
               </div>
               
@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Copy, GitCompare } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { AnalysisDiff, ChangeStatus } from '@/types/analysis'
+import { describeAnalysis, describeChanges, summarizeDiff } from '@/lib/analysis-diff'
+
+interface DiffSummaryProps {
+  diff: AnalysisDiff
+}
+
+const LINE_COLORS: Record<string, string> = {
+  '+': 'text-green-700',
+  '-': 'text-red-700',
+  '~': 'text-amber-700'
+}
+
+export default function DiffSummary({ diff }: DiffSummaryProps) {
+  const { toast } = useToast()
+  const changeLines = describeChanges(diff)
+
+  const countChanges = (status: ChangeStatus) =>
+    [...diff.pages, ...diff.connections, ...diff.routes].filter(change => change.status === status).length
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(summarizeDiff(diff).join('\n'))
+      toast({ title: "Change summary copied" })
+    } catch {
+      toast({ title: "Copy failed", description: "Clipboard access was denied", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="p-6 border-b">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-slate-900 flex items-center">
+          <GitCompare className="w-4 h-4 mr-2" />
+          Changes
+        </h3>
+        <Button variant="ghost" size="sm" onClick={handleCopy}>
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        {describeAnalysis(diff.base)} → {describeAnalysis(diff.head)}
+      </p>
+      <div className="flex space-x-2 mb-3">
+        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">+{countChanges('added')} added</Badge>
+        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">-{countChanges('removed')} removed</Badge>
+        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">~{countChanges('changed')} changed</Badge>
+      </div>
+      {changeLines.length === 0 ? (
+        <p className="text-sm text-slate-600">No navigation changes between these analyses.</p>
+      ) : (
+        <ScrollArea className="h-40">
+          <ul className="space-y-1 pr-3">
+            {changeLines.map((line, idx) => (
+              <li key={idx} className={`text-xs font-mono break-words ${LINE_COLORS[line.charAt(0)] ?? 'text-slate-600'}`}>
+                {line}
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState, useSyncExternalStore } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Gauge, KeyRound } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { getRateLimit, subscribeToRateLimit } from '@/lib/github-api'
+import {
+  clearGitHubToken,
+  getGitHubToken,
+  isGitHubTokenPersisted,
+  maskGitHubToken,
+  saveGitHubToken
+} from '@/lib/github-token'
+
+export function RateLimitBadge() {
+  const rateLimit = useSyncExternalStore(subscribeToRateLimit, getRateLimit)
+  if (!rateLimit) return null
+
+  const isLow = rateLimit.remaining < Math.max(5, rateLimit.limit * 0.1)
+  return (
+    <Badge
+      variant={isLow ? 'destructive' : 'outline'}
+      className="font-mono text-xs"
+      title={`Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}
+    >
+      <Gauge className="w-3 h-3 mr-1" />
+      {rateLimit.remaining}/{rateLimit.limit} API calls left
+    </Badge>
+  )
+}
+
+export default function GitHubSettings() {
+  const [open, setOpen] = useState(false)
+  const [savedToken, setSavedToken] = useState(getGitHubToken)
+  const [draftToken, setDraftToken] = useState('')
+  const [persist, setPersist] = useState(isGitHubTokenPersisted)
+  const { toast } = useToast()
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    setDraftToken('')
+    setPersist(isGitHubTokenPersisted())
+  }
+
+  const handleSave = () => {
+    try {
+      saveGitHubToken(draftToken || savedToken || '', persist)
+      setSavedToken(getGitHubToken())
+      setOpen(false)
+      toast({
+        title: "GitHub token saved",
+        description: persist ? 'Stored in this browser until you remove it' : 'Kept for this tab only'
+      })
+    } catch (error) {
+      toast({
+        title: "Could not save token",
+        description: error instanceof Error ? error.message : 'Browser storage is unavailable',
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleRemove = () => {
+    clearGitHubToken()
+    setSavedToken(null)
+    setDraftToken('')
+    toast({
+      title: "GitHub token removed",
+      description: 'Requests are anonymous again'
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <KeyRound className="w-4 h-4 mr-2" />
+          {savedToken ? 'Token set' : 'GitHub token'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>GitHub access token</DialogTitle>
+          <DialogDescription>
+            A personal access token lets Flowscope read private repositories and raises the API limit
+            from 60 to 5,000 requests per hour. It is only sent to api.github.com.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="github-token">Token</Label>
+            <Input
+              id="github-token"
+              type="password"
+              autoComplete="off"
+              value={draftToken}
+              onChange={(e) => setDraftToken(e.target.value)}
+              placeholder={savedToken ? `Current: ${maskGitHubToken(savedToken)}` : 'ghp_... or github_pat_...'}
+            />
+            <p className="text-xs text-slate-500">
+              Classic tokens need the <span className="font-mono">repo</span> scope for private repositories;
+              fine-grained tokens need read access to Contents.
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="persist-token" className="text-sm font-normal">
+              Remember on this device
+              <span className="block text-xs text-slate-500">Off keeps the token for this tab only</span>
+            </Label>
+            <Switch id="persist-token" checked={persist} onCheckedChange={setPersist} />
+          </div>
+          <RateLimitBadge />
+        </div>
+
+        <DialogFooter>
+          {savedToken && (
+            <Button variant="ghost" onClick={handleRemove} className="text-red-600 hover:text-red-700">
+              Remove token
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!draftToken.trim() && !savedToken}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
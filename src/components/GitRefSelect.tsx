@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { GitBranch, GitCommit, Tag } from 'lucide-react'
+import { GitHubRefList, GitRef } from '@/types/analysis'
+import { listGitHubRefs, parseGitHubUrl } from '@/lib/github-api'
+
+interface GitRefSelectProps {
+  repoUrl: string
+  value: GitRef | null
+  onChange: (ref: GitRef | null) => void // Keep it stable, e.g. a state setter: a new function refetches the refs
+  disabled?: boolean
+}
+
+const refKey = (ref: GitRef) => `${ref.type}:${ref.sha}:${ref.name}`
+
+// Picks the ref named in the URL (longest matching branch or tag), or the default branch
+function initialRef(refs: GitHubRefList, refPath?: string): GitRef | undefined {
+  if (refPath) {
+    const named = [...refs.branches, ...refs.tags]
+      .filter(ref => refPath === ref.name || refPath.startsWith(`${ref.name}/`))
+      .sort((a, b) => b.name.length - a.name.length)[0]
+    // Refs outside the listed ones are resolved from the URL at analysis time
+    return named ?? refs.commits.find(ref => ref.sha.startsWith(refPath.split('/')[0]))
+  }
+  return refs.branches.find(ref => ref.name === refs.defaultBranch)
+}
+
+export default function GitRefSelect({ repoUrl, value, onChange, disabled }: GitRefSelectProps) {
+  const [refs, setRefs] = useState<GitHubRefList | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState('')
+
+  useEffect(() => {
+    const repo = parseGitHubUrl(repoUrl)
+    setRefs(null)
+    setLoadError('')
+    onChange(null)
+    if (!repo) return
+
+    let cancelled = false
+    // Wait until the user stops typing before spending API quota
+    const timer = setTimeout(() => {
+      setIsLoading(true)
+      listGitHubRefs(repo)
+        .then(list => {
+          if (cancelled) return
+          setRefs(list)
+          onChange(initialRef(list, repo.refPath) ?? null)
+        })
+        .catch(error => {
+          if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not load branches')
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false)
+        })
+    }, 600)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [repoUrl, onChange])
+
+  if (!parseGitHubUrl(repoUrl)) return null
+
+  if (loadError) {
+    return (
+      <p className="text-xs text-slate-500">
+        Could not list branches ({loadError}). The ref in the URL or the default branch will be analyzed.
+      </p>
+    )
+  }
+
+  const allRefs = refs ? [...refs.branches, ...refs.tags, ...refs.commits] : []
+  const urlRef = parseGitHubUrl(repoUrl)?.refPath
+  const placeholder = isLoading ? 'Loading branches...' : urlRef ? `As in URL: ${urlRef}` : 'Default branch'
+
+  return (
+    <Select
+      value={value ? refKey(value) : undefined}
+      onValueChange={key => onChange(allRefs.find(ref => refKey(ref) === key) ?? null)}
+      disabled={disabled || !refs}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {refs && (
+          <>
+            <SelectGroup>
+              <SelectLabel>Branches</SelectLabel>
+              {refs.branches.map(ref => (
+                <SelectItem key={refKey(ref)} value={refKey(ref)}>
+                  <span className="flex items-center font-mono text-sm">
+                    <GitBranch className="w-3 h-3 mr-2" />
+                    {ref.name}
+                    {ref.name === refs.defaultBranch && <span className="ml-2 text-xs text-slate-500">default</span>}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {refs.tags.length > 0 && (
+              <>
+                <SelectSeparator />
+                <SelectGroup>
+                  <SelectLabel>Tags</SelectLabel>
+                  {refs.tags.map(ref => (
+                    <SelectItem key={refKey(ref)} value={refKey(ref)}>
+                      <span className="flex items-center font-mono text-sm">
+                        <Tag className="w-3 h-3 mr-2" />
+                        {ref.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </>
+            )}
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>Recent commits on {refs.defaultBranch}</SelectLabel>
+              {refs.commits.map(ref => (
+                <SelectItem key={refKey(ref)} value={refKey(ref)}>
+                  <span className="flex items-center text-sm">
+                    <GitCommit className="w-3 h-3 mr-2" />
+                    <span className="font-mono mr-2">{ref.name}</span>
+                    <span className="truncate max-w-[260px] text-slate-600">{ref.message}</span>
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </>
+        )}
+      </SelectContent>
+    </Select>
+  )
+}
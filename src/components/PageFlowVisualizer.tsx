@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { 
   ArrowLeft, 
   Download, 
@@ -20,24 +22,64 @@ import {
   Shield,
   MousePointer,
   Layers,
-  Navigation
+  Navigation,
+  Save,
+  AlertTriangle,
+  HelpCircle,
+  Unlink,
+  Code2
 } from 'lucide-react'
-import { FlowAnalysisResult, PageFlow, PageConnection } from '@/types/analysis'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import { AnalysisDiff, BrokenLink, CanvasLayout, ChangeStatus, FlowAnalysisResult, PageFlow, PageConnection, PageIssue, SourceLocation } from '@/types/analysis'
+import { BROKEN_LINK_COLOR, CONNECTION_ANCHOR, PLACEHOLDER_HEIGHT, PLACEHOLDER_WIDTH, getChangeStatusColor, getConnectionGeometry, getConnectionTypeColor, getPlaceholderPositions } from '@/lib/flow-styles'
+import { connectionKey } from '@/lib/analysis-diff'
+import DiffSummary from '@/components/DiffSummary'
+import { buildFlowSvg, downloadBlob, exportPdf, exportPng, exportSvg } from '@/lib/canvas-export'
+import { GRAPH_FORMATS, GraphFormat, serializeGraph } from '@/lib/graph-serializers'
+import { analysisFileName, serializeAnalysis } from '@/lib/analysis-file'
+import { PAGE_ISSUE_DESCRIPTIONS, PAGE_ISSUE_LABELS, PAGE_ISSUES } from '@/lib/page-reachability'
+import { getLocalRoot, getSourceUrl, needsLocalRoot, saveLocalRoot } from '@/lib/source-links'
+import { flattenRoutes } from '@/lib/route-matcher'
+import SourceLink from '@/components/SourceLink'
+import { PAGE_METRICS, PAGE_METRIC_LABELS } from '@/lib/code-metrics'
+import SourceViewer, { SourceHighlight } from '@/components/SourceViewer'
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable'
 
 interface PageFlowVisualizerProps {
   analysisResult: FlowAnalysisResult
+  diff?: AnalysisDiff
+  initialZoom?: number
+  onLayoutChange?: (layout: CanvasLayout) => void
   onBack: () => void
 }
 
-export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowVisualizerProps) {
+const DEFAULT_ZOOM = 0.8
+
+export default function PageFlowVisualizer({ analysisResult, diff, initialZoom, onLayoutChange, onBack }: PageFlowVisualizerProps) {
   const [selectedPage, setSelectedPage] = useState<PageFlow | null>(null)
-  const [zoom, setZoom] = useState(0.8)
+  const [zoom, setZoom] = useState(initialZoom ?? DEFAULT_ZOOM)
   const [isDragging, setIsDragging] = useState(false)
   const [draggedPage, setDraggedPage] = useState<string | null>(null)
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
   const canvasRef = useRef<HTMLDivElement>(null)
   const [pages, setPages] = useState<PageFlow[]>([])
   const [viewMode, setViewMode] = useState<'flow' | 'journeys'>('flow')
+  const [exportSelectionOnly, setExportSelectionOnly] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [issueFilter, setIssueFilter] = useState<PageIssue | 'all'>('all')
+  const [localRoot, setLocalRoot] = useState<string | undefined>()
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null)
+  const [showSource, setShowSource] = useState(true)
+  const { toast } = useToast()
 
   useEffect(() => {
     // Position pages in a more organized flow layout
@@ -56,11 +98,25 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
       }
     })
     setPages(positionedPages)
+    setLocalRoot(getLocalRoot(analysisResult))
   }, [analysisResult])
 
-  const handleZoomIn = () => setZoom(prev => Math.min(prev + 0.1, 2))
-  const handleZoomOut = () => setZoom(prev => Math.max(prev - 0.1, 0.3))
-  const handleResetZoom = () => setZoom(0.8)
+  const reportLayout = useCallback((layoutPages: PageFlow[], layoutZoom: number) => {
+    const positions: CanvasLayout['positions'] = {}
+    layoutPages.forEach(page => {
+      if (page.position) positions[page.id] = page.position
+    })
+    onLayoutChange?.({ zoom: layoutZoom, positions })
+  }, [onLayoutChange])
+
+  const changeZoom = (nextZoom: number) => {
+    setZoom(nextZoom)
+    reportLayout(pages, nextZoom)
+  }
+
+  const handleZoomIn = () => changeZoom(Math.min(zoom + 0.1, 2))
+  const handleZoomOut = () => changeZoom(Math.max(zoom - 0.1, 0.3))
+  const handleResetZoom = () => changeZoom(DEFAULT_ZOOM)
 
   const handleMouseDown = useCallback((e: React.MouseEvent, pageId: string) => {
     e.preventDefault()
@@ -96,9 +152,10 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
   }, [isDragging, draggedPage, dragOffset, zoom])
 
   const handleMouseUp = useCallback(() => {
+    if (draggedPage) reportLayout(pages, zoom)
     setIsDragging(false)
     setDraggedPage(null)
-  }, [])
+  }, [draggedPage, pages, zoom, reportLayout])
 
   const getPageTypeColor = (type: string) => {
     switch (type) {
@@ -120,13 +177,20 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
     }
   }
 
-  const getConnectionTypeColor = (type: string) => {
-    switch (type) {
-      case 'navigation': return '#3b82f6' // blue
-      case 'redirect': return '#ef4444' // red
-      case 'modal': return '#f59e0b' // amber
-      case 'conditional': return '#8b5cf6' // purple
-      default: return '#6b7280' // gray
+  const getChangeStatusClass = (status?: ChangeStatus) => {
+    switch (status) {
+      case 'added': return 'ring-4 ring-green-400'
+      case 'removed': return 'ring-4 ring-red-400 opacity-60'
+      case 'changed': return 'ring-4 ring-amber-400'
+      default: return ''
+    }
+  }
+
+  const getChangeBadgeClass = (status: ChangeStatus) => {
+    switch (status) {
+      case 'added': return 'bg-green-50 text-green-700 border-green-200'
+      case 'removed': return 'bg-red-50 text-red-700 border-red-200'
+      case 'changed': return 'bg-amber-50 text-amber-700 border-amber-200'
     }
   }
 
@@ -139,42 +203,191 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
     }
   }
 
-  const renderConnectionLine = (fromPage: PageFlow, connection: PageConnection) => {
-    const toPage = pages.find(p => p.id === connection.targetPageId)
+  // The issue filter narrows the canvas and the sidebar alike
+  const visiblePages = issueFilter === 'all' ? pages : pages.filter(page => page.issues?.includes(issueFilter))
+
+  // Exports mirror the canvas as arranged and filtered, optionally narrowed to the selected page and its neighbours
+  const getExportPages = () => {
+    if (!exportSelectionOnly || !selectedPage) return visiblePages
+    const neighbourIds = new Set([
+      selectedPage.id,
+      ...selectedPage.connections.map(connection => connection.targetPageId),
+      ...pages.filter(page => page.connections.some(connection => connection.targetPageId === selectedPage.id)).map(page => page.id)
+    ])
+    return visiblePages.filter(page => neighbourIds.has(page.id))
+  }
+
+  const handleExport = async (format: 'svg' | 'png' | 'pdf', scale = 2) => {
+    const exportPages = getExportPages()
+    const flowSvg = buildFlowSvg(exportPages, { title: analysisResult.repoName, selectedPageId: selectedPage?.id })
+    const fileName = `${analysisResult.repoName.replace(/[^\w.-]+/g, '-')}-flow`
+
+    setIsExporting(true)
+    try {
+      if (format === 'svg') exportSvg(flowSvg, fileName)
+      else if (format === 'png') await exportPng(flowSvg, fileName, scale)
+      else await exportPdf(flowSvg, fileName)
+      toast({
+        title: "Export ready",
+        description: `Exported ${exportPages.length} pages as ${format.toUpperCase()}`
+      })
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the flow diagram",
+        variant: "destructive"
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleExportGraph = async (format: GraphFormat, copy = false) => {
+    const exportPages = getExportPages()
+    const source = serializeGraph({ ...analysisResult, pages: exportPages }, format)
+    const { label, extension } = GRAPH_FORMATS.find(entry => entry.format === format)!
+
+    try {
+      if (copy) {
+        await navigator.clipboard.writeText(source)
+      } else {
+        const fileName = `${analysisResult.repoName.replace(/[^\w.-]+/g, '-')}-flow.${extension}`
+        downloadBlob(new Blob([source], { type: 'text/plain;charset=utf-8' }), fileName)
+      }
+      toast({
+        title: copy ? "Copied to clipboard" : "Export ready",
+        description: `${label} diagram with ${exportPages.length} pages`
+      })
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : `Could not export the ${label} diagram`,
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Saves the result with the positions the user dragged pages to
+  const handleSaveAnalysis = () => {
+    const result = { ...analysisResult, pages }
+    downloadBlob(new Blob([serializeAnalysis(result)], { type: 'application/json' }), analysisFileName(result))
+    toast({
+      title: "Analysis saved",
+      description: "Open the file from the Dashboard to continue where you left off"
+    })
+  }
+
+  const selectPage = (page: PageFlow) => {
+    setSelectedPage(page)
+    setSelectedEdgeId(null)
+  }
+
+  // Edges are selected from the canvas or from their line in the source viewer
+  const edgeId = (pageId: string, kind: 'connection' | 'broken' | 'unresolved', index: number) => `${pageId}:${kind}:${index}`
+  const selectEdge = (page: PageFlow, id: string) => {
+    setSelectedPage(page)
+    setSelectedEdgeId(id)
+    setShowSource(true)
+  }
+
+  const sourceHighlights: SourceHighlight[] = selectedPage ? [
+    ...selectedPage.connections.flatMap((connection, index) => connection.location ? [{
+      id: edgeId(selectedPage.id, 'connection', index),
+      location: connection.location,
+      label: `${connection.type} to ${pages.find(p => p.id === connection.targetPageId)?.metadata.title ?? connection.targetPageId}: ${connection.trigger}`,
+      color: getConnectionTypeColor(connection.type)
+    }] : []),
+    ...(selectedPage.brokenLinks ?? []).map((link, index) => ({
+      id: edgeId(selectedPage.id, 'broken', index),
+      location: link.location,
+      label: `Broken link to ${link.target}${link.condition ? ` if ${link.condition}` : ''}`,
+      color: BROKEN_LINK_COLOR
+    })),
+    ...(selectedPage.unresolvedConnections ?? []).flatMap((connection, index) => connection.location ? [{
+      id: edgeId(selectedPage.id, 'unresolved', index),
+      location: connection.location,
+      label: `Unresolved target: ${connection.expression}${connection.condition ? ` if ${connection.condition}` : ''}`,
+      color: '#94a3b8'
+    }] : [])
+  ] : []
+
+  const sourceUrl = (location: SourceLocation) => getSourceUrl(analysisResult, location, localRoot)
+  const selectedRoute = selectedPage
+    ? flattenRoutes(analysisResult.routes).find(route => route.filePath === selectedPage.filePath && route.path === selectedPage.path)
+    : undefined
+
+  const countPagesWithIssue = (issue: PageIssue) => pages.filter(page => page.issues?.includes(issue)).length
+
+  const brokenLinks = visiblePages.flatMap(page => (page.brokenLinks ?? []).map((link, index) => ({ page, link, index })))
+  const placeholderPositions = getPlaceholderPositions(visiblePages)
+  const brokenTargets = [...placeholderPositions.keys()]
+  const getPlaceholderPosition = (target: string) => placeholderPositions.get(target)!
+
+  const renderBrokenLinkLine = (fromPage: PageFlow, link: BrokenLink, index: number) => {
+    if (!fromPage.position) return null
+    const { path } = getConnectionGeometry(fromPage.position, getPlaceholderPosition(link.target))
+    const id = edgeId(fromPage.id, 'broken', index)
+    return (
+      <path
+        key={id}
+        d={path}
+        stroke={BROKEN_LINK_COLOR}
+        strokeWidth={selectedEdgeId === id ? 4 : 2}
+        fill="none"
+        strokeDasharray="4,4"
+        markerEnd="url(#arrowhead)"
+        opacity={diff && selectedEdgeId !== id ? 0.35 : 0.8}
+        style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+        onClick={() => selectEdge(fromPage, id)}
+      >
+        <title>{`${link.trigger} to ${link.target}${link.condition ? ` if ${link.condition}` : ''} (no matching route)`}</title>
+      </path>
+    )
+  }
+
+  const renderConnectionLine = (fromPage: PageFlow, connection: PageConnection, index: number) => {
+    const toPage = visiblePages.find(p => p.id === connection.targetPageId)
     if (!toPage || !fromPage.position || !toPage.position) return null
     
-    const startX = fromPage.position.x + 180 // Center of card
-    const startY = fromPage.position.y + 140
-    const endX = toPage.position.x + 180
-    const endY = toPage.position.y + 140
+    // Curved path for better visual flow, shared with the exported diagram
+    const { midX, midY, path } = getConnectionGeometry(fromPage.position, toPage.position)
     
-    // Create curved path for better visual flow
-    const midX = (startX + endX) / 2
-    const midY = (startY + endY) / 2 - 60 // Curve upward
-    
-    const color = getConnectionTypeColor(connection.type)
-    const isDashed = connection.type === 'conditional'
+    // In a diff, changed lines take the overlay colour and unchanged ones fade out
+    const changeStatus = diff?.connectionStatus[connectionKey(fromPage.id, connection)]
+    const color = changeStatus ? getChangeStatusColor(changeStatus) : getConnectionTypeColor(connection.type)
+    const isDashed = connection.type === 'conditional' || changeStatus === 'removed'
+    const id = edgeId(fromPage.id, 'connection', index)
+    const isSelected = selectedEdgeId === id
     
     return (
-      <g key={`${fromPage.id}-${connection.targetPageId}`}>
+      <g key={id} opacity={diff && !changeStatus && !isSelected ? 0.35 : 1}>
         <path
-          d={`M ${startX} ${startY} Q ${midX} ${midY} ${endX} ${endY}`}
+          d={path}
           stroke={color}
-          strokeWidth="3"
+          strokeWidth={isSelected ? 5 : 3}
           fill="none"
           strokeDasharray={isDashed ? "8,4" : "none"}
           markerEnd="url(#arrowhead)"
           className="drop-shadow-sm"
+          style={{ pointerEvents: 'stroke', cursor: 'pointer' }}
+          onClick={() => selectEdge(fromPage, id)}
         />
-        {/* Connection label */}
+        {/* Connection label, with the guarding condition underneath */}
         <foreignObject
-          x={midX - 60}
+          x={midX - 80}
           y={midY - 10}
-          width="120"
-          height="20"
+          width="160"
+          height={connection.condition ? 40 : 20}
         >
-          <div className="bg-white/90 backdrop-blur-sm px-2 py-1 rounded text-xs font-medium text-center border shadow-sm">
-            {connection.trigger}
+          <div
+            className={`bg-white/90 backdrop-blur-sm px-2 py-1 rounded text-xs font-medium text-center border shadow-sm pointer-events-auto cursor-pointer ${isSelected ? 'ring-2 ring-primary' : ''}`}
+            onClick={() => selectEdge(fromPage, id)}
+            title={connection.condition ? `${connection.trigger} if ${connection.condition}` : connection.trigger}
+          >
+            <p className="truncate">{connection.trigger}</p>
+            {connection.condition && (
+              <p className="truncate font-mono text-[10px] font-normal text-slate-600">if {connection.condition}</p>
+            )}
           </div>
         </foreignObject>
       </g>
@@ -220,17 +433,60 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
               <GitBranch className="w-4 h-4 mr-1" />
               {analysisResult.pages.length} pages • {analysisResult.routes.length} routes
             </p>
-            <a 
-              href={analysisResult.repoUrl} 
-              target="_blank" 
-              rel="noopener noreferrer"
-              className="text-sm text-primary hover:underline flex items-center font-medium"
-            >
-              View Repository <ExternalLink className="w-3 h-3 ml-1" />
-            </a>
+            {analysisResult.ref && (
+              <p className="text-xs text-slate-600 mb-2 font-mono truncate" title={analysisResult.ref.sha}>
+                {analysisResult.ref.type} {analysisResult.ref.name}
+                {analysisResult.ref.type !== 'commit' && ` @ ${analysisResult.ref.sha.slice(0, 7)}`}
+              </p>
+            )}
+            {analysisResult.mode === 'demo' ? (
+              <p className="text-sm text-slate-500">Sample project, not a real repository</p>
+            ) : (analysisResult.sourceType ?? 'github') === 'github' ? (
+              <a 
+                href={analysisResult.ref ? `${analysisResult.repoUrl}/tree/${analysisResult.ref.sha}` : analysisResult.repoUrl} 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-sm text-primary hover:underline flex items-center font-medium"
+              >
+                View Repository <ExternalLink className="w-3 h-3 ml-1" />
+              </a>
+            ) : (
+              <p className="text-sm text-slate-500 font-mono truncate">
+                {analysisResult.sourceType === 'zip' ? 'Zip archive' : 'Local folder'}: {analysisResult.repoUrl}
+              </p>
+            )}
           </div>
         </div>
 
+        {analysisResult.mode === 'demo' && (
+          <div className="px-6 py-3 border-b bg-amber-50 text-amber-800 text-xs space-y-1">
+            <p className="font-semibold flex items-center">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Demo data
+            </p>
+            <p>This is a built-in sample app, not the navigation of your project.</p>
+            {analysisResult.error && (
+              <p className="text-amber-700">Your analysis failed: {analysisResult.error.message}</p>
+            )}
+          </div>
+        )}
+
+        {analysisResult.partial && (
+          <div className="px-6 py-3 border-b bg-amber-50 text-amber-800 text-xs">
+            <p className="font-semibold flex items-center">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Partial analysis
+            </p>
+            <p>
+              {analysisResult.failedFiles
+                ? `${analysisResult.failedFiles} files could not be read; pages and links in them are missing.`
+                : `Cancelled after reading ${analysisResult.analyzedFiles} of ${analysisResult.totalFiles} files; pages and links in the rest are missing.`}
+            </p>
+          </div>
+        )}
+
+        {diff && <DiffSummary diff={diff} />}
+
         {/* Analysis Summary */}
         <div className="p-6 border-b">
           <h3 className="font-semibold text-slate-900 mb-4 flex items-center">
@@ -263,6 +519,34 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
           </div>
         </div>
 
+        {brokenLinks.length > 0 && (
+          <div className="px-6 py-4 border-b">
+            <h3 className="font-semibold text-slate-900 mb-3 flex items-center">
+              <Unlink className="w-4 h-4 mr-2 text-red-500" />
+              Broken Links ({brokenLinks.length})
+            </h3>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {brokenLinks.map(({ page, link, index }, idx) => (
+                <div
+                  key={idx}
+                  // Selects the dangling edge, which also highlights the offending line in the source viewer
+                  onClick={() => selectEdge(page, edgeId(page.id, 'broken', index))}
+                  className="cursor-pointer p-2 rounded border border-red-100 bg-red-50/50 hover:bg-red-50"
+                >
+                  <p className="text-sm font-mono text-red-700 truncate">{link.target}</p>
+                  <SourceLink location={link.location} href={sourceUrl(link.location)} className="text-xs max-w-full" />
+                  <p className="text-xs text-slate-500 truncate">{page.metadata.title} • {link.trigger}</p>
+                  {link.condition && (
+                    <p className="text-xs text-slate-600 truncate" title={link.condition}>
+                      if <code className="font-mono">{link.condition}</code>
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Pages List */}
         <div className="flex-1 overflow-hidden">
           <div className="p-6 pb-4">
@@ -270,10 +554,30 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
               <FileText className="w-4 h-4 mr-2" />
               Pages
             </h3>
+            <div className="flex flex-wrap gap-1">
+              <Button variant={issueFilter === 'all' ? 'default' : 'outline'} size="sm" className="h-7 px-2 text-xs" onClick={() => setIssueFilter('all')}>
+                All ({pages.length})
+              </Button>
+              {PAGE_ISSUES.map(issue => (
+                <Button
+                  key={issue}
+                  variant={issueFilter === issue ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  title={PAGE_ISSUE_DESCRIPTIONS[issue]}
+                  onClick={() => setIssueFilter(issue)}
+                >
+                  {PAGE_ISSUE_LABELS[issue]} ({countPagesWithIssue(issue)})
+                </Button>
+              ))}
+            </div>
           </div>
           <ScrollArea className="flex-1 px-6">
             <div className="space-y-3 pb-6">
-              {pages.map((page) => (
+              {visiblePages.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-4">No pages match this filter</p>
+              )}
+              {visiblePages.map((page) => (
                 <Card 
                   key={page.id}
                   className={`cursor-pointer transition-all duration-200 hover:shadow-md hover:scale-[1.02] border-l-4 ${
@@ -287,7 +591,7 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                             ? 'border-l-orange-500'
                             : 'border-l-gray-500'
                   }`}
-                  onClick={() => setSelectedPage(page)}
+                  onClick={() => selectPage(page)}
                 >
                   <CardContent className="p-4">
                     <div className="flex items-start space-x-3">
@@ -314,6 +618,15 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                         <p className="text-xs text-slate-500 truncate mt-1">
                           {page.metadata.description}
                         </p>
+                        {page.issues && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {page.issues.map(issue => (
+                              <Badge key={issue} variant="outline" className="text-xs bg-slate-50 text-slate-600 border-slate-300" title={PAGE_ISSUE_DESCRIPTIONS[issue]}>
+                                {PAGE_ISSUE_LABELS[issue]}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                     {page.connections.length > 0 && (
@@ -363,15 +676,59 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
               <RotateCcw className="w-4 h-4" />
             </Button>
             <Separator orientation="vertical" className="h-6" />
-            <Button variant="outline" size="sm" className="hover:bg-slate-50">
-              <Download className="w-4 h-4 mr-2" />
-              Export
+            <Button
+              variant={selectedPage && showSource ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowSource(!showSource)}
+              disabled={!selectedPage}
+            >
+              <Code2 className="w-4 h-4 mr-2" />
+              Source
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleSaveAnalysis} disabled={pages.length === 0 || !!diff} className="hover:bg-slate-50">
+              <Save className="w-4 h-4 mr-2" />
+              Save
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="hover:bg-slate-50" disabled={isExporting || pages.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  {isExporting ? 'Exporting...' : 'Export'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Export diagram</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => handleExport('svg')}>SVG (vector)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('png', 1)}>PNG (1x)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('png', 2)}>PNG (2x)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('png', 4)}>PNG (4x)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('pdf')}>PDF (multi-page)</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Diagram source</DropdownMenuLabel>
+                {GRAPH_FORMATS.map(({ format, label, extension }) => (
+                  <DropdownMenuItem key={format} onSelect={() => handleExportGraph(format)}>
+                    {label} (.{extension})
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem onSelect={() => handleExportGraph('mermaid', true)}>Copy Mermaid for Markdown</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={exportSelectionOnly}
+                  disabled={!selectedPage}
+                  onCheckedChange={checked => setExportSelectionOnly(checked === true)}
+                  onSelect={event => event.preventDefault()}
+                >
+                  Selected page and neighbours only
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
+        <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+        <ResizablePanel id="canvas" order={1} defaultSize={60} minSize={30}>
         {/* Canvas */}
-        <div className="flex-1 bg-gradient-to-br from-slate-50 to-slate-100 overflow-auto relative">
+        <div className="h-full bg-gradient-to-br from-slate-50 to-slate-100 overflow-auto relative">
           <div 
             ref={canvasRef}
             className="relative min-w-full min-h-full cursor-move"
@@ -399,8 +756,11 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
 
             {/* Connection Lines */}
             <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 1 }}>
-              {pages.map((page) => 
-                page.connections.map((connection) => renderConnectionLine(page, connection))
+              {visiblePages.map((page) => 
+                page.connections.map((connection, index) => renderConnectionLine(page, connection, index))
+              )}
+              {visiblePages.map((page) =>
+                page.brokenLinks?.map((link, index) => renderBrokenLinkLine(page, link, index))
               )}
               
               {/* Arrow marker definitions */}
@@ -422,8 +782,31 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
               </defs>
             </svg>
 
+            {/* Placeholder nodes for broken link targets */}
+            {brokenTargets.map((target) => {
+              const position = getPlaceholderPosition(target)
+              return (
+                <div
+                  key={target}
+                  className="absolute px-3 py-2 rounded-lg border-2 border-dashed border-red-300 bg-red-50/95 shadow-sm"
+                  style={{
+                    left: position.x + CONNECTION_ANCHOR.x - PLACEHOLDER_WIDTH / 2,
+                    top: position.y + CONNECTION_ANCHOR.y - PLACEHOLDER_HEIGHT / 2,
+                    width: PLACEHOLDER_WIDTH,
+                    zIndex: 2
+                  }}
+                >
+                  <p className="text-xs font-semibold text-red-700 flex items-center">
+                    <Unlink className="w-3 h-3 mr-1" />
+                    No matching route
+                  </p>
+                  <p className="text-sm text-red-800 font-mono truncate" title={target}>{target}</p>
+                </div>
+              )
+            })}
+
             {/* Page Cards */}
-            {pages.map((page) => (
+            {visiblePages.map((page) => (
               <div
                 key={page.id}
                 className={`absolute transition-all duration-200 ${
@@ -435,14 +818,14 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                   zIndex: selectedPage?.id === page.id ? 10 : 2
                 }}
                 onMouseDown={(e) => handleMouseDown(e, page.id)}
-                onClick={() => setSelectedPage(page)}
+                onClick={() => selectPage(page)}
               >
                 <Card 
                   className={`w-80 h-64 shadow-lg hover:shadow-xl transition-all duration-300 border-2 ${
                     selectedPage?.id === page.id 
                       ? 'border-primary shadow-2xl' 
                       : 'border-slate-200 hover:border-slate-300'
-                  } bg-white/95 backdrop-blur-sm`}
+                  } ${getChangeStatusClass(diff?.pageStatus[page.id])} bg-white/95 backdrop-blur-sm`}
                 >
                   {/* Card Header */}
                   <CardHeader className="pb-3">
@@ -459,6 +842,16 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                         </div>
                       </div>
                       <div className="flex items-center space-x-1">
+                        {diff?.pageStatus[page.id] && (
+                          <Badge variant="outline" className={`text-xs capitalize ${getChangeBadgeClass(diff.pageStatus[page.id])}`}>
+                            {diff.pageStatus[page.id]}
+                          </Badge>
+                        )}
+                        {page.issues?.map(issue => (
+                          <Badge key={issue} variant="outline" className="text-xs bg-slate-50 text-slate-600 border-slate-300" title={PAGE_ISSUE_DESCRIPTIONS[issue]}>
+                            {PAGE_ISSUE_LABELS[issue]}
+                          </Badge>
+                        ))}
                         {page.metadata.isProtected && (
                           <Badge variant="outline" className="text-xs bg-amber-50 text-amber-600 border-amber-200">
                             <Shield className="w-3 h-3 mr-1" />
@@ -523,6 +916,24 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
             ))}
           </div>
         </div>
+        </ResizablePanel>
+
+        {selectedPage && showSource && (
+          <>
+            <ResizableHandle withHandle />
+            <ResizablePanel id="source" order={2} defaultSize={40} minSize={20}>
+              <SourceViewer
+                filePath={selectedPage.filePath}
+                content={analysisResult.sources?.[selectedPage.filePath]}
+                highlights={sourceHighlights}
+                selectedId={selectedEdgeId ?? undefined}
+                onSelect={highlight => setSelectedEdgeId(highlight.id)}
+                onClose={() => setShowSource(false)}
+              />
+            </ResizablePanel>
+          </>
+        )}
+        </ResizablePanelGroup>
 
         {/* Selected Page Details */}
         {selectedPage && (
@@ -547,7 +958,11 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                   </div>
                   <div>
                     <p className="text-sm font-semibold text-slate-900 mb-1">File Location</p>
-                    <p className="text-sm text-slate-600 font-mono bg-slate-50 px-2 py-1 rounded truncate">{selectedPage.filePath}</p>
+                    <div className="text-sm text-slate-600 bg-slate-50 px-2 py-1 rounded flex min-w-0">
+                      {selectedPage.location
+                        ? <SourceLink location={selectedPage.location} href={sourceUrl(selectedPage.location)} />
+                        : <span className="font-mono truncate">{selectedPage.filePath}</span>}
+                    </div>
                   </div>
                   <div>
                     <p className="text-sm font-semibold text-slate-900 mb-1">Complexity</p>
@@ -556,6 +971,24 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                     </Badge>
                   </div>
                 </div>
+
+                {selectedPage.metadata.metrics && (
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                    {PAGE_METRICS.map(metric => (
+                      <div key={metric} className="bg-slate-50 rounded border px-2 py-1">
+                        <p className="text-lg font-semibold text-slate-900">{selectedPage.metadata.metrics![metric]}</p>
+                        <p className="text-xs text-slate-500">{PAGE_METRIC_LABELS[metric]}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {selectedRoute?.location && (
+                  <div className="flex items-center text-sm min-w-0">
+                    <span className="font-semibold text-slate-900 mr-2 shrink-0">Route Definition</span>
+                    <SourceLink location={selectedRoute.location} href={sourceUrl(selectedRoute.location)} className="text-slate-600" />
+                  </div>
+                )}
                 
                 {selectedPage.connections.length > 0 && (
                   <div>
@@ -567,7 +1000,7 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                       {selectedPage.connections.map((connection, idx) => {
                         const targetPage = pages.find(p => p.id === connection.targetPageId)
                         return targetPage ? (
-                          <div key={idx} className="flex items-center justify-between p-2 bg-slate-50 rounded border">
+                          <div key={idx} className="flex flex-wrap items-center justify-between p-2 bg-slate-50 rounded border">
                             <div className="flex items-center space-x-2">
                               <div className={`w-6 h-6 bg-gradient-to-br ${getPageTypeColor(targetPage.type)} rounded-lg flex items-center justify-center text-white`}>
                                 {getPageTypeIcon(targetPage.type)}
@@ -584,12 +1017,66 @@ export default function PageFlowVisualizer({ analysisResult, onBack }: PageFlowV
                               </Badge>
                               <span className="text-xs text-slate-500">{connection.trigger}</span>
                             </div>
+                            {connection.condition && (
+                              <p className="basis-full mt-1 text-xs text-slate-600 truncate" title={connection.condition}>
+                                if <code className="font-mono bg-white px-1 rounded border">{connection.condition}</code>
+                              </p>
+                            )}
+                            {connection.location && (
+                              <div className="basis-full mt-1 flex min-w-0">
+                                <SourceLink location={connection.location} href={sourceUrl(connection.location)} className="text-xs" />
+                              </div>
+                            )}
                           </div>
                         ) : null
                       })}
                     </div>
                   </div>
                 )}
+
+                {selectedPage.unresolvedConnections && selectedPage.unresolvedConnections.length > 0 && (
+                  <div>
+                    <p className="text-sm font-semibold text-slate-900 mb-2 flex items-center">
+                      <HelpCircle className="w-4 h-4 mr-1" />
+                      Unresolved Targets ({selectedPage.unresolvedConnections.length})
+                    </p>
+                    <div className="space-y-2">
+                      {selectedPage.unresolvedConnections.map((connection, idx) => (
+                        <div key={idx} className="flex flex-wrap items-center justify-between p-2 bg-slate-50 rounded border border-dashed">
+                          <code className="text-xs text-slate-700 truncate mr-2" title={connection.expression}>{connection.expression}</code>
+                          <span className="text-xs text-slate-500 shrink-0">{connection.trigger}</span>
+                          {connection.condition && (
+                            <p className="basis-full mt-1 text-xs text-slate-600 truncate" title={connection.condition}>
+                              if <code className="font-mono bg-white px-1 rounded border">{connection.condition}</code>
+                            </p>
+                          )}
+                          {connection.location && (
+                            <div className="basis-full mt-1 flex min-w-0">
+                              <SourceLink location={connection.location} href={sourceUrl(connection.location)} className="text-xs" />
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {needsLocalRoot(analysisResult) && (
+                  <div className="space-y-1">
+                    <Label htmlFor="local-root" className="text-xs text-slate-600">Folder path on disk, for opening files in VS Code</Label>
+                    <Input
+                      id="local-root"
+                      key={analysisResult.repoName}
+                      defaultValue={localRoot}
+                      placeholder="/home/me/projects/my-app"
+                      className="h-8 text-xs font-mono"
+                      onBlur={event => {
+                        saveLocalRoot(analysisResult, event.target.value)
+                        setLocalRoot(event.target.value.trim() || undefined)
+                      }}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
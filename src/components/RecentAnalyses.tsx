@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Check, Clock, FolderOpen, GitCompare, Pencil, Trash2, X } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { AnalysisHistoryEntry, FlowAnalysisResult } from '@/types/analysis'
+import { deleteAnalysisFromHistory, listAnalysisHistory, renameAnalysisInHistory } from '@/lib/analysis-history'
+
+interface RecentAnalysesProps {
+  onOpen: (entry: AnalysisHistoryEntry) => void
+  onCompare: (first: FlowAnalysisResult, second: FlowAnalysisResult) => void
+}
+
+export default function RecentAnalyses({ onOpen, onCompare }: RecentAnalysesProps) {
+  const [entries, setEntries] = useState<AnalysisHistoryEntry[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const { toast } = useToast()
+
+  useEffect(() => {
+    listAnalysisHistory()
+      .then(setEntries)
+      .catch(error => console.warn('Failed to load analysis history:', error))
+  }, [])
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Analysis history is unavailable',
+      variant: "destructive"
+    })
+  }
+
+  const handleRename = async (id: string) => {
+    try {
+      const updated = await renameAnalysisInHistory(id, draftName)
+      setEntries(prev => prev.map(entry => entry.id === id ? updated : entry))
+      setEditingId(null)
+    } catch (error) {
+      showError('Rename failed', error)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteAnalysisFromHistory(id)
+      setEntries(prev => prev.filter(entry => entry.id !== id))
+      setCompareIds(prev => prev.filter(existing => existing !== id))
+    } catch (error) {
+      showError('Delete failed', error)
+    }
+  }
+
+  // Keeps at most two entries ticked; ticking a third replaces the oldest choice
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds(prev => checked ? [...prev.filter(existing => existing !== id), id].slice(-2) : prev.filter(existing => existing !== id))
+  }
+
+  const handleCompare = () => {
+    const [first, second] = compareIds.map(id => entries.find(entry => entry.id === id)!)
+    onCompare(first.result, second.result)
+  }
+
+  if (entries.length === 0) return null
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2 text-lg">
+            <Clock className="w-5 h-5 text-primary" />
+            <span>Recent Analyses</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleCompare} disabled={compareIds.length !== 2}>
+            <GitCompare className="w-4 h-4 mr-2" />
+            Compare {compareIds.length}/2
+          </Button>
+        </div>
+        <CardDescription>
+          Stored in this browser. Reopening restores the layout you left behind; tick two to compare them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {entries.map((entry) => (
+          <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border bg-white hover:bg-slate-50 transition-colors">
+            <Checkbox
+              checked={compareIds.includes(entry.id)}
+              onCheckedChange={(checked) => toggleCompare(entry.id, checked === true)}
+              className="mr-3"
+              aria-label={`Compare ${entry.name}`}
+            />
+            <div className="min-w-0 flex-1 mr-4">
+              {editingId === entry.id ? (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(entry.id)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className="h-8"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleRename(entry.id)}>
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <p className="font-medium text-slate-900 truncate">{entry.name}</p>
+                    {entry.branch && (
+                      <Badge variant="outline" className="font-mono text-xs">{entry.branch}</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 truncate">
+                    {entry.pageCount} pages • {entry.routeCount} routes • {new Date(entry.timestamp).toLocaleString()} • {entry.repoUrl}
+                  </p>
+                </>
+              )}
+            </div>
+            {editingId !== entry.id && (
+              <div className="flex items-center space-x-1">
+                <Button variant="outline" size="sm" onClick={() => onOpen(entry)}>
+                  <FolderOpen className="w-4 h-4 mr-2" />
+                  Open
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditingId(entry.id)
+                    setDraftName(entry.name)
+                  }}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.id)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
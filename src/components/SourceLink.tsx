@@ -0,0 +1,32 @@
+import { ExternalLink } from 'lucide-react'
+import { SourceLocation } from '@/types/analysis'
+import { formatLocation } from '@/lib/source-links'
+
+interface SourceLinkProps {
+  location: SourceLocation
+  href?: string // Without one the location is shown as plain text
+  className?: string
+}
+
+export default function SourceLink({ location, href, className = '' }: SourceLinkProps) {
+  const label = formatLocation(location)
+  if (!href) {
+    return <span className={`font-mono truncate ${className}`} title={label}>{label}</span>
+  }
+
+  // vscode:// links hand off to the editor; opening them in a new tab leaves an empty one behind
+  const isWebLink = href.startsWith('http')
+  return (
+    <a
+      href={href}
+      target={isWebLink ? '_blank' : undefined}
+      rel={isWebLink ? 'noopener noreferrer' : undefined}
+      title={isWebLink ? `${label} on GitHub` : `Open ${label} in VS Code`}
+      className={`font-mono text-primary hover:underline inline-flex items-center min-w-0 ${className}`}
+      onClick={event => event.stopPropagation()}
+    >
+      <span className="truncate">{label}</span>
+      <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+    </a>
+  )
+}
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Code2, X } from 'lucide-react'
+import { SourceLocation } from '@/types/analysis'
+import type { HighlightToken, TokenKind } from '@/lib/syntax-highlight'
+
+export interface SourceHighlight {
+  id: string // Edge id on the canvas
+  location: SourceLocation
+  label: string
+  color: string
+}
+
+interface SourceViewerProps {
+  filePath: string
+  content?: string
+  highlights: SourceHighlight[]
+  selectedId?: string
+  onSelect: (highlight: SourceHighlight) => void
+  onClose: () => void
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  keyword: 'text-purple-700',
+  string: 'text-green-700',
+  comment: 'text-slate-400 italic',
+  number: 'text-orange-600',
+  type: 'text-blue-700',
+  plain: 'text-slate-800'
+}
+
+function plainLines(content: string): HighlightToken[][] {
+  return content.split('\n').map(line => [{ text: line.replace(/\r$/, ''), kind: 'plain' }])
+}
+
+export default function SourceViewer({ filePath, content, highlights, selectedId, onSelect, onClose }: SourceViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [lines, setLines] = useState<HighlightToken[][]>([])
+
+  // The highlighter bundles the TypeScript scanner, so it is only loaded once a file is shown;
+  // until then the source renders uncolored
+  useEffect(() => {
+    if (content === undefined) return
+    setLines(plainLines(content))
+    let cancelled = false
+    import('@/lib/syntax-highlight').then(({ highlightSource }) => {
+      if (!cancelled) setLines(highlightSource(content, filePath))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [content, filePath])
+
+  // Every line a highlight spans, so multi-line <Link> elements light up as a whole
+  const highlightsByLine = useMemo(() => {
+    const byLine = new Map<number, SourceHighlight[]>()
+    for (const highlight of highlights) {
+      for (let line = highlight.location.startLine; line <= highlight.location.endLine; line++) {
+        byLine.set(line, [...(byLine.get(line) ?? []), highlight])
+      }
+    }
+    return byLine
+  }, [highlights])
+
+  const selected = highlights.find(highlight => highlight.id === selectedId)
+
+  useEffect(() => {
+    if (!selected) return
+    const line = containerRef.current?.querySelector(`[data-line="${selected.location.startLine}"]`)
+    line?.scrollIntoView({ block: 'center' })
+  }, [selected, lines])
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="px-4 py-2 border-b flex items-center justify-between">
+        <p className="text-sm font-semibold text-slate-900 flex items-center min-w-0">
+          <Code2 className="w-4 h-4 mr-2 shrink-0" />
+          <span className="font-mono truncate" title={filePath}>{filePath}</span>
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-6 w-6 p-0" aria-label="Close source">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {content === undefined ? (
+        <p className="p-4 text-sm text-slate-500">
+          The file contents are not part of this analysis. Re-run it to browse the source here.
+        </p>
+      ) : (
+        <div ref={containerRef} className="flex-1 overflow-auto py-2 font-mono text-xs leading-5">
+          {lines.map((tokens, index) => {
+            const lineNumber = index + 1
+            const lineHighlights = highlightsByLine.get(lineNumber)
+            const isSelected = !!selected && lineHighlights?.includes(selected)
+            return (
+              <div
+                key={lineNumber}
+                data-line={lineNumber}
+                title={lineHighlights?.map(highlight => highlight.label).join('\n')}
+                // Clicking again moves on to the next edge created on the same line
+                onClick={lineHighlights ? () => onSelect(lineHighlights.find(highlight => highlight !== selected) ?? lineHighlights[0]) : undefined}
+                className={`flex min-w-max ${lineHighlights ? 'cursor-pointer' : ''} ${
+                  isSelected ? 'bg-primary/15' : lineHighlights ? 'bg-blue-50 hover:bg-blue-100' : ''
+                }`}
+                style={lineHighlights ? { boxShadow: `inset 3px 0 0 ${lineHighlights[0].color}` } : undefined}
+              >
+                <span className="w-12 shrink-0 pr-3 text-right text-slate-400 select-none">{lineNumber}</span>
+                <span className="whitespace-pre pr-4">
+                  {tokens.map((token, tokenIndex) => (
+                    <span key={tokenIndex} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                  ))}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
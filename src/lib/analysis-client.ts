@@ -0,0 +1,126 @@
+// Page side of the analysis worker: same signatures as the analyzer, but parsing runs off the main thread.
+// Nothing here may import the analyzer statically, or the TypeScript compiler ships in the page bundle too.
+
+import {
+  AnalysisOptions,
+  AnalysisSource,
+  AnalysisWorkerMessage,
+  AnalysisWorkerRequest,
+  FlowAnalysisResult,
+  GitHubAnalysisOptions,
+  SourceSnapshot
+} from '@/types/analysis'
+import { readSourceFiles } from '@/lib/source-files'
+import { SourceProvider } from '@/lib/source-providers'
+import { createAnalysisError } from '@/lib/analysis-error'
+import { createProgressReporter } from '@/lib/analysis-progress'
+import { setRateLimit } from '@/lib/github-api'
+import { getGitHubToken } from '@/lib/github-token'
+
+interface PendingRun {
+  resolve: (result: FlowAnalysisResult) => void
+  reject: (error: Error) => void
+  onProgress?: AnalysisOptions['onProgress']
+  // Snapshots are read on the page, so the worker's own discover/fetch pass is not news
+  skipFetchProgress: boolean
+}
+
+let worker: Worker | null = null
+let nextRunId = 1
+const pendingRuns = new Map<number, PendingRun>()
+
+function supportsWorkers(): boolean {
+  return typeof Worker !== 'undefined'
+}
+
+function handleMessage(message: AnalysisWorkerMessage) {
+  const run = pendingRuns.get(message.id)
+  if (message.type === 'rate-limit') {
+    setRateLimit(message.rateLimit)
+    return
+  }
+  if (!run) return
+
+  if (message.type === 'progress') {
+    if (!(run.skipFetchProgress && ['discovering', 'fetching'].includes(message.progress.phase))) {
+      run.onProgress?.(message.progress)
+    }
+  } else if (message.type === 'result') {
+    pendingRuns.delete(message.id)
+    run.resolve(message.result)
+  } else {
+    pendingRuns.delete(message.id)
+    run.reject(createAnalysisError(message.error.code, message.error.message, message.error))
+  }
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+  worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => handleMessage(event.data)
+  // A crashed worker takes every run with it; the next run starts a fresh one
+  worker.onerror = (event) => {
+    event.preventDefault()
+    pendingRuns.forEach(run => run.reject(new Error(`Analysis worker failed: ${event.message || 'unknown error'}`)))
+    pendingRuns.clear()
+    worker?.terminate()
+    worker = null
+  }
+  return worker
+}
+
+function runInWorker(source: AnalysisSource, options: AnalysisOptions): Promise<FlowAnalysisResult> {
+  const { signal, onProgress, ...workerOptions } = options
+  const id = nextRunId++
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAnalysisError('cancelled', 'Analysis cancelled before any files were read'))
+      return
+    }
+    const target = getWorker()
+    const onAbort = () => {
+      const cancel: AnalysisWorkerRequest = { type: 'cancel', id }
+      target.postMessage(cancel)
+    }
+    // Callers may reuse a signal across runs, so each run takes its listener with it when it settles
+    const settle = () => signal?.removeEventListener('abort', onAbort)
+    pendingRuns.set(id, {
+      resolve: result => { settle(); resolve(result) },
+      reject: error => { settle(); reject(error) },
+      onProgress,
+      skipFetchProgress: source.kind === 'snapshot'
+    })
+    const start: AnalysisWorkerRequest = { type: 'start', id, source, options: workerOptions, githubToken: getGitHubToken() }
+    target.postMessage(start)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Reads the files on the page, where folder handles and zip contents live, for the worker to parse
+async function snapshotSource(provider: SourceProvider, options: AnalysisOptions): Promise<SourceSnapshot> {
+  const { paths, files, partial, failedFiles } = await readSourceFiles(provider, options, createProgressReporter(options.onProgress))
+  return {
+    type: provider.type,
+    name: provider.name,
+    url: provider.url,
+    branch: provider.branch,
+    paths,
+    files: Object.fromEntries(files),
+    ...(partial ? { partial: true } : {}),
+    ...(failedFiles > 0 ? { failedFiles } : {})
+  }
+}
+
+export async function analyzeGitHubRepoInWorker(url: string, options: GitHubAnalysisOptions = {}): Promise<FlowAnalysisResult> {
+  if (!supportsWorkers()) return (await import('@/lib/github-analyzer')).analyzeGitHubRepo(url, options)
+  const { ref, ...analysisOptions } = options
+  return runInWorker({ kind: 'github', url, ref }, analysisOptions)
+}
+
+export async function analyzeSourceInWorker(provider: SourceProvider, options: AnalysisOptions = {}): Promise<FlowAnalysisResult> {
+  if (!supportsWorkers()) return (await import('@/lib/github-analyzer')).analyzeSource(provider, options)
+  const snapshot = await snapshotSource(provider, options)
+  // The page already honoured the signal while reading; the worker only parses what was read
+  return runInWorker({ kind: 'snapshot', snapshot }, { ...options, signal: undefined })
+}
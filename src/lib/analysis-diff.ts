@@ -0,0 +1,259 @@
+import {
+  AnalysisDiff,
+  ChangeStatus,
+  ConnectionChange,
+  FlowAnalysisResult,
+  PageChange,
+  PageConnection,
+  PageFlow,
+  RouteChange,
+  RouteInfo
+} from '@/types/analysis'
+import { flattenRoutes } from '@/lib/route-matcher'
+
+export const REMOVED_PAGE_PREFIX = 'removed:'
+
+export function pageKey(page: PageFlow): string {
+  return `${page.filePath}#${page.name}`
+}
+
+// A layout and its index route share a path, as do pathless layouts and their children,
+// so the route's kind and component are part of its identity
+function routeKey(route: RouteInfo): string {
+  const path = route.slot ? `${route.path}@${route.slot}` : route.path
+  const kind = route.isIndex ? ' (index)' : route.isLayout ? ' (layout)' : ''
+  return `${path}${kind} ${route.filePath}#${route.component}`
+}
+
+// Identifies a rendered connection line; used to look up its diff status
+export function connectionKey(sourcePageId: string, connection: PageConnection): string {
+  return `${sourcePageId}->${connection.targetPageId}:${connection.type}:${connection.trigger}`
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  return String(value)
+}
+
+// Lists `field: before → after` for every field whose value differs
+function compareFields<T>(before: T, after: T, fields: [string, (item: T) => unknown][]): string[] {
+  return fields.flatMap(([label, read]) => {
+    const previous = formatValue(read(before))
+    const next = formatValue(read(after))
+    return previous === next ? [] : [`${label}: ${previous} → ${next}`]
+  })
+}
+
+const PAGE_FIELDS: [string, (page: PageFlow) => unknown][] = [
+  ['path', page => page.path],
+  ['type', page => page.type],
+  ['title', page => page.metadata.title],
+  ['protected', page => page.metadata.isProtected],
+  ['complexity', page => page.metadata.complexity],
+  ['user actions', page => page.metadata.userActions]
+]
+
+// Path, kind and component make up the route key, so a change to them shows as removed and added
+const ROUTE_FIELDS: [string, (route: RouteInfo) => unknown][] = [
+  ['guards', route => route.guards ?? []],
+  ['params', route => route.params ?? []],
+  ['boundaries', route => route.boundaries ?? []]
+]
+
+interface KeyedConnection {
+  sourceKey: string
+  targetKey: string
+  connection: PageConnection
+}
+
+function keyedConnections(result: FlowAnalysisResult): Map<string, KeyedConnection[]> {
+  const keyById = new Map(result.pages.map(page => [page.id, pageKey(page)]))
+  const byEdge = new Map<string, KeyedConnection[]>()
+  for (const page of result.pages) {
+    for (const connection of page.connections) {
+      const targetKey = keyById.get(connection.targetPageId)
+      if (!targetKey) continue
+      const edge = `${pageKey(page)}->${targetKey}`
+      byEdge.set(edge, [...(byEdge.get(edge) ?? []), { sourceKey: pageKey(page), targetKey, connection }])
+    }
+  }
+  return byEdge
+}
+
+function isSameConnection(a: PageConnection, b: PageConnection): boolean {
+  return a.type === b.type && a.trigger === b.trigger && a.condition === b.condition
+}
+
+function diffConnections(base: FlowAnalysisResult, head: FlowAnalysisResult): ConnectionChange[] {
+  const before = keyedConnections(base)
+  const after = keyedConnections(head)
+  const changes: ConnectionChange[] = []
+
+  for (const edge of new Set([...before.keys(), ...after.keys()])) {
+    const previous = [...(before.get(edge) ?? [])]
+    const next = [...(after.get(edge) ?? [])]
+
+    // Identical connections cancel out; what is left is paired up as changes
+    for (const item of [...next]) {
+      const match = previous.findIndex(candidate => isSameConnection(candidate.connection, item.connection))
+      if (match !== -1) {
+        previous.splice(match, 1)
+        next.splice(next.indexOf(item), 1)
+      }
+    }
+    const paired = Math.min(previous.length, next.length)
+    for (let index = 0; index < paired; index++) {
+      changes.push({
+        sourceKey: next[index].sourceKey,
+        targetKey: next[index].targetKey,
+        status: 'changed',
+        before: previous[index].connection,
+        after: next[index].connection,
+        details: compareFields(previous[index].connection, next[index].connection, [
+          ['type', connection => connection.type],
+          ['trigger', connection => connection.trigger],
+          ['condition', connection => connection.condition]
+        ])
+      })
+    }
+    previous.slice(paired).forEach(({ sourceKey, targetKey, connection }) => {
+      changes.push({ sourceKey, targetKey, status: 'removed', before: connection, details: [] })
+    })
+    next.slice(paired).forEach(({ sourceKey, targetKey, connection }) => {
+      changes.push({ sourceKey, targetKey, status: 'added', after: connection, details: [] })
+    })
+  }
+
+  return changes
+}
+
+function diffByKey<T>(
+  before: T[],
+  after: T[],
+  keyOf: (item: T) => string,
+  fields: [string, (item: T) => unknown][]
+): { key: string; status: ChangeStatus; before?: T; after?: T; details: string[] }[] {
+  const previous = new Map(before.map(item => [keyOf(item), item]))
+  const next = new Map(after.map(item => [keyOf(item), item]))
+  const changes: { key: string; status: ChangeStatus; before?: T; after?: T; details: string[] }[] = []
+
+  for (const [key, item] of next) {
+    const old = previous.get(key)
+    if (!old) {
+      changes.push({ key, status: 'added', after: item, details: [] })
+      continue
+    }
+    const details = compareFields(old, item, fields)
+    if (details.length > 0) changes.push({ key, status: 'changed', before: old, after: item, details })
+  }
+  for (const [key, item] of previous) {
+    if (!next.has(key)) changes.push({ key, status: 'removed', before: item, details: [] })
+  }
+
+  return changes
+}
+
+// Merges both results into one canvas: head pages, plus pages and connections only found in base
+function buildDiffView(head: FlowAnalysisResult, pages: PageChange[], connections: ConnectionChange[]) {
+  const pageStatus: Record<string, ChangeStatus> = {}
+  const connectionStatus: Record<string, ChangeStatus> = {}
+  const idByKey = new Map(head.pages.map(page => [pageKey(page), page.id]))
+  const viewPages: PageFlow[] = head.pages.map(page => ({ ...page, connections: [...page.connections] }))
+
+  for (const change of pages) {
+    if (change.status === 'removed' && change.before) {
+      const id = `${REMOVED_PAGE_PREFIX}${change.before.id}`
+      idByKey.set(change.key, id)
+      // Base positions would overlap the head layout, so removed pages are laid out afresh
+      viewPages.push({ ...change.before, id, connections: [], position: undefined })
+      pageStatus[id] = 'removed'
+    } else if (change.after) {
+      pageStatus[change.after.id] = change.status
+    }
+  }
+
+  const viewById = new Map(viewPages.map(page => [page.id, page]))
+  for (const change of connections) {
+    const sourceId = idByKey.get(change.sourceKey)
+    const targetId = idByKey.get(change.targetKey)
+    const source = sourceId ? viewById.get(sourceId) : undefined
+    if (!source || !targetId) continue
+
+    const connection = { ...(change.after ?? change.before!), targetPageId: targetId }
+    if (change.status === 'removed') source.connections.push(connection)
+    connectionStatus[connectionKey(source.id, connection)] = change.status
+  }
+
+  return {
+    view: { ...head, pages: viewPages },
+    pageStatus,
+    connectionStatus
+  }
+}
+
+export function diffAnalyses(base: FlowAnalysisResult, head: FlowAnalysisResult): AnalysisDiff {
+  const pages: PageChange[] = diffByKey(base.pages, head.pages, pageKey, PAGE_FIELDS)
+  const routes: RouteChange[] = diffByKey(flattenRoutes(base.routes), flattenRoutes(head.routes), routeKey, ROUTE_FIELDS)
+  const connections = diffConnections(base, head)
+
+  return {
+    base,
+    head,
+    pages,
+    connections,
+    routes,
+    ...buildDiffView(head, pages, connections)
+  }
+}
+
+// Older snapshot first, so the diff reads as "what changed since"
+export function orderForDiff(a: FlowAnalysisResult, b: FlowAnalysisResult): [FlowAnalysisResult, FlowAnalysisResult] {
+  return a.timestamp <= b.timestamp ? [a, b] : [b, a]
+}
+
+export function describeAnalysis(result: FlowAnalysisResult): string {
+  const when = new Date(result.timestamp).toLocaleString()
+  return result.branch ? `${result.repoName}@${result.branch} (${when})` : `${result.repoName} (${when})`
+}
+
+const STATUS_SYMBOL: Record<ChangeStatus, string> = { added: '+', removed: '-', changed: '~' }
+
+function pageLabel(page?: PageFlow): string {
+  return page ? `${page.metadata.title} (${page.path})` : 'unknown page'
+}
+
+// One line per change, prefixed with +, - or ~
+export function describeChanges(diff: AnalysisDiff): string[] {
+  const pageByKey = new Map([...diff.base.pages, ...diff.head.pages].map(page => [pageKey(page), page]))
+  const withDetails = (line: string, details: string[]) => details.length > 0 ? `${line} — ${details.join('; ')}` : line
+
+  return [
+    ...diff.pages.map(change => withDetails(
+      `${STATUS_SYMBOL[change.status]} page ${pageLabel(change.after ?? change.before)}`,
+      change.details
+    )),
+    ...diff.connections.map(change => {
+      const connection = change.after ?? change.before!
+      return withDetails(
+        `${STATUS_SYMBOL[change.status]} ${connection.type} ${pageLabel(pageByKey.get(change.sourceKey))} → ${pageLabel(pageByKey.get(change.targetKey))} on "${connection.trigger}"`,
+        change.details
+      )
+    }),
+    ...diff.routes.map(change => withDetails(`${STATUS_SYMBOL[change.status]} route ${change.key}`, change.details))
+  ]
+}
+
+// Plain-text summary with per-kind tallies, suitable for PR descriptions
+export function summarizeDiff(diff: AnalysisDiff): string[] {
+  const count = (changes: { status: ChangeStatus }[], status: ChangeStatus) => changes.filter(change => change.status === status).length
+  const tally = (changes: { status: ChangeStatus }[]) => `${count(changes, 'added')} added, ${count(changes, 'removed')} removed, ${count(changes, 'changed')} changed`
+
+  return [
+    `Comparing ${describeAnalysis(diff.base)} → ${describeAnalysis(diff.head)}`,
+    `Pages: ${tally(diff.pages)}`,
+    `Connections: ${tally(diff.connections)}`,
+    `Routes: ${tally(diff.routes)}`,
+    ...describeChanges(diff)
+  ]
+}
@@ -0,0 +1,42 @@
+import { AnalysisError, AnalysisErrorCode } from '@/types/analysis'
+
+const RETRYABLE_CODES: AnalysisErrorCode[] = ['rate-limited', 'network', 'unknown']
+
+type ErrorWithDetails = Error & { analysisError?: unknown }
+
+// Thrown errors stay plain Errors (so `error.message` keeps working everywhere); the structured
+// details ride along and are read back with toAnalysisError
+export function createAnalysisError(code: AnalysisErrorCode, message: string, details: Pick<AnalysisError, 'status' | 'resetAt'> = {}): Error {
+  const analysisError: AnalysisError = { code, message, retryable: RETRYABLE_CODES.includes(code), ...details }
+  return Object.assign(new Error(message), { analysisError })
+}
+
+function isAnalysisError(value: unknown): value is AnalysisError {
+  return typeof value === 'object' && value !== null && 'code' in value && 'message' in value && 'retryable' in value
+}
+
+export function toAnalysisError(error: unknown): AnalysisError {
+  const details = (error as ErrorWithDetails | null)?.analysisError
+  if (error instanceof Error && isAnalysisError(details)) return details
+  // fetch rejects with a TypeError when the request never reached the server
+  if (error instanceof TypeError) {
+    return { code: 'network', message: 'Could not reach GitHub. Check your connection and try again.', retryable: true }
+  }
+  return {
+    code: 'unknown',
+    message: error instanceof Error ? error.message : 'The analysis failed for an unknown reason',
+    retryable: true
+  }
+}
+
+export function analysisErrorTitle(error: AnalysisError): string {
+  switch (error.code) {
+    case 'invalid-url': return 'Invalid repository URL'
+    case 'unauthorized': return 'GitHub token rejected'
+    case 'forbidden': return 'Access denied'
+    case 'rate-limited': return 'GitHub rate limit reached'
+    case 'not-found': return 'Repository not found'
+    case 'network': return 'GitHub is unreachable'
+    default: return 'Analysis failed'
+  }
+}
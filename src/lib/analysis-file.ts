@@ -0,0 +1,150 @@
+import { AnalysisFile, FlowAnalysisResult, PageConnection, PageFlow } from '@/types/analysis'
+
+export const ANALYSIS_FILE_FORMAT = 'flowscope-analysis'
+export const ANALYSIS_FILE_VERSION = 2
+export const ANALYSIS_FILE_EXTENSION = '.flowscope.json'
+
+// Shape of pages saved before PageFlow existed: connections were bare target ids
+// and the card content lived in `preview`
+interface LegacyPageNode {
+  id: string
+  name?: string
+  path?: string
+  filePath?: string
+  type?: PageFlow['type']
+  connections?: (string | PageConnection)[]
+  position?: { x: number; y: number }
+  metadata?: PageFlow['metadata']
+  preview?: {
+    title?: string
+    description?: string
+    elements?: string[]
+    complexity?: PageFlow['metadata']['complexity']
+  }
+}
+
+interface LegacyAnalysisResult extends Partial<Omit<FlowAnalysisResult, 'pages'>> {
+  pages: LegacyPageNode[]
+}
+
+// Each migration upgrades a result from its key version to the next one
+const MIGRATIONS: Record<number, (result: LegacyAnalysisResult) => LegacyAnalysisResult> = {
+  0: migrateLegacyResult,
+  1: addAnalysisMode
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function migrateLegacyPage({ preview, ...page }: LegacyPageNode): PageFlow {
+  const path = page.path ?? '/'
+  const type = page.type ?? 'page'
+  const name = page.name ?? page.id
+
+  return {
+    ...page,
+    name,
+    path,
+    filePath: page.filePath ?? '',
+    type,
+    connections: (page.connections ?? []).map(connection => typeof connection === 'string'
+      ? { targetPageId: connection, type: 'navigation', trigger: 'link' }
+      : connection),
+    metadata: page.metadata ?? {
+      title: preview?.title ?? name,
+      description: preview?.description ?? `${type} component`,
+      hasAuth: false,
+      hasParams: path.includes(':'),
+      isProtected: false,
+      complexity: preview?.complexity ?? 'low',
+      userActions: preview?.elements ?? [],
+      entryPoints: []
+    }
+  }
+}
+
+// Unversioned files: a bare FlowAnalysisResult or a legacy AnalysisResult of PageNodes
+function migrateLegacyResult(result: LegacyAnalysisResult): LegacyAnalysisResult {
+  const repoUrl = result.repoUrl ?? ''
+  const pages = result.pages.map(migrateLegacyPage)
+  return {
+    ...result,
+    repoUrl,
+    repoName: result.repoName ?? (repoUrl.split('/').filter(Boolean).pop() || 'Imported analysis'),
+    pages,
+    routes: result.routes ?? [],
+    userJourneys: result.userJourneys ?? [],
+    totalFiles: result.totalFiles ?? pages.length,
+    analyzedFiles: result.analyzedFiles ?? pages.length,
+    timestamp: result.timestamp ?? new Date().toISOString()
+  }
+}
+
+// Version 2 added `mode`. Older builds silently swapped in demo data and flagged it only in the
+// first page's description, so that note is the one way to recognise a saved demo.
+function addAnalysisMode(result: LegacyAnalysisResult): LegacyAnalysisResult {
+  const note = result.pages[0]?.metadata?.description ?? ''
+  const isDemo = note.includes('Demo data') || note.includes('Showing demo visualization')
+  return { ...result, mode: isDemo ? 'demo' : 'live' }
+}
+
+function assertResultShape(value: unknown): asserts value is LegacyAnalysisResult {
+  if (!isRecord(value) || !Array.isArray(value.pages)) {
+    throw new Error('Not a Flowscope analysis: missing the "pages" list')
+  }
+  const invalid = value.pages.findIndex(page => !isRecord(page) || typeof page.id !== 'string')
+  if (invalid !== -1) {
+    throw new Error(`Not a Flowscope analysis: page ${invalid + 1} has no id`)
+  }
+}
+
+export function createAnalysisFile(result: FlowAnalysisResult): AnalysisFile {
+  return {
+    format: ANALYSIS_FILE_FORMAT,
+    version: ANALYSIS_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    result
+  }
+}
+
+export function serializeAnalysis(result: FlowAnalysisResult): string {
+  return JSON.stringify(createAnalysisFile(result), null, 2) + '\n'
+}
+
+export function analysisFileName(result: FlowAnalysisResult): string {
+  const date = result.timestamp.slice(0, 10)
+  return `${result.repoName.replace(/[^\w.-]+/g, '-')}-${date}${ANALYSIS_FILE_EXTENSION}`
+}
+
+// Accepts the current envelope, older envelopes and bare (legacy) results
+export function parseAnalysisFile(text: string): FlowAnalysisResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const envelope = isRecord(data) && data.format === ANALYSIS_FILE_FORMAT ? data : null
+  const version = envelope ? envelope.version : 0
+  const result = envelope ? envelope.result : data
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error('The analysis file has an invalid schema version')
+  }
+  if (version > ANALYSIS_FILE_VERSION) {
+    throw new Error(`The analysis file uses schema version ${version}, but this version of Flowscope only reads up to ${ANALYSIS_FILE_VERSION}. Please update Flowscope.`)
+  }
+
+  assertResultShape(result)
+  let migrated = result
+  for (let current = version; current < ANALYSIS_FILE_VERSION; current++) {
+    migrated = MIGRATIONS[current](migrated)
+  }
+  return migrated as FlowAnalysisResult
+}
+
+export async function readAnalysisFile(file: File): Promise<FlowAnalysisResult> {
+  return parseAnalysisFile(await file.text())
+}
@@ -0,0 +1,147 @@
+import { AnalysisHistoryEntry, CanvasLayout, FlowAnalysisResult } from '@/types/analysis'
+
+const DB_NAME = 'flowscope'
+const DB_VERSION = 2
+const STORE_NAME = 'analyses'
+// Layouts change on every drag, so they live apart from the (large) analysis results
+const LAYOUT_STORE_NAME = 'layouts'
+const MAX_ENTRIES = 50
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Analysis history is not available in this browser'))
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('timestamp', 'timestamp')
+        store.createIndex('repoUrl', 'repoUrl')
+      }
+      if (!db.objectStoreNames.contains(LAYOUT_STORE_NAME)) {
+        db.createObjectStore(LAYOUT_STORE_NAME, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Could not open analysis history'))
+  }).catch(error => {
+    // Allow a later call to retry, e.g. after the user leaves private browsing
+    dbPromise = null
+    throw error
+  })
+
+  return dbPromise
+}
+
+interface StoredLayout {
+  id: string
+  layout: CanvasLayout
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'))
+  })
+  // Awaited together so a failed request cannot leave `completed` rejecting unobserved
+  const [result] = await Promise.all([promisify(run(transaction.objectStore(storeName))), completed])
+  return result
+}
+
+export function historyEntryId(result: FlowAnalysisResult): string {
+  return `${result.repoUrl}#${result.branch ?? ''}@${result.timestamp}`
+}
+
+// Positions are part of the layout; applying them here lets the canvas skip its grid layout
+export function applyCanvasLayout(result: FlowAnalysisResult, layout?: CanvasLayout): FlowAnalysisResult {
+  if (!layout) return result
+  return {
+    ...result,
+    pages: result.pages.map(page => layout.positions[page.id] ? { ...page, position: layout.positions[page.id] } : page)
+  }
+}
+
+// Entries saved before layouts had their own store still carry them inline
+export async function listAnalysisHistory(): Promise<AnalysisHistoryEntry[]> {
+  const entries = await withStore(STORE_NAME, 'readonly', store => store.getAll() as IDBRequest<AnalysisHistoryEntry[]>)
+  const layouts = await withStore(LAYOUT_STORE_NAME, 'readonly', store => store.getAll() as IDBRequest<StoredLayout[]>)
+  const layoutById = new Map(layouts.map(stored => [stored.id, stored.layout]))
+  return entries
+    .map(entry => ({ ...entry, layout: layoutById.get(entry.id) ?? entry.layout }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+export async function getAnalysisFromHistory(id: string): Promise<AnalysisHistoryEntry | undefined> {
+  const entry = await withStore(STORE_NAME, 'readonly', store => store.get(id) as IDBRequest<AnalysisHistoryEntry | undefined>)
+  if (!entry) return undefined
+  const stored = await withStore(LAYOUT_STORE_NAME, 'readonly', store => store.get(id) as IDBRequest<StoredLayout | undefined>)
+  return { ...entry, layout: stored?.layout ?? entry.layout }
+}
+
+// Re-saving the same analysis (same repo, branch and timestamp) keeps its name and layout
+export async function saveAnalysisToHistory(result: FlowAnalysisResult): Promise<AnalysisHistoryEntry> {
+  const id = historyEntryId(result)
+  const existing = await getAnalysisFromHistory(id)
+  const entry: AnalysisHistoryEntry = {
+    id,
+    name: existing?.name ?? (result.branch ? `${result.repoName} (${result.branch})` : result.repoName),
+    repoUrl: result.repoUrl,
+    branch: result.branch ?? '',
+    timestamp: result.timestamp,
+    updatedAt: new Date().toISOString(),
+    pageCount: result.pages.length,
+    routeCount: result.routes.length,
+    result
+  }
+  await withStore(STORE_NAME, 'readwrite', store => store.put(entry))
+  // Moves an inline layout from an older entry into the layout store
+  if (existing?.layout) await saveCanvasLayout(id, existing.layout)
+
+  // Keep the history bounded so large results do not exhaust the storage quota
+  const entries = await listAnalysisHistory()
+  for (const stale of entries.slice(MAX_ENTRIES)) {
+    await deleteAnalysisFromHistory(stale.id)
+  }
+  return { ...entry, layout: existing?.layout }
+}
+
+async function updateHistoryEntry(id: string, update: (entry: AnalysisHistoryEntry) => AnalysisHistoryEntry): Promise<AnalysisHistoryEntry> {
+  const entry = await getAnalysisFromHistory(id)
+  if (!entry) throw new Error('This analysis is no longer in your history')
+  const { layout, ...updated } = { ...update(entry), updatedAt: new Date().toISOString() }
+  await withStore(STORE_NAME, 'readwrite', store => store.put(updated))
+  if (layout) await saveCanvasLayout(id, layout)
+  return { ...updated, layout }
+}
+
+export async function renameAnalysisInHistory(id: string, name: string): Promise<AnalysisHistoryEntry> {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Name cannot be empty')
+  return updateHistoryEntry(id, entry => ({ ...entry, name: trimmed }))
+}
+
+// Writes only the layout; the entry and its analysis result are left untouched
+export async function saveCanvasLayout(id: string, layout: CanvasLayout): Promise<void> {
+  const stored: StoredLayout = { id, layout }
+  await withStore(LAYOUT_STORE_NAME, 'readwrite', store => store.put(stored))
+}
+
+export async function deleteAnalysisFromHistory(id: string): Promise<void> {
+  await withStore(STORE_NAME, 'readwrite', store => store.delete(id))
+  await withStore(LAYOUT_STORE_NAME, 'readwrite', store => store.delete(id))
+}
@@ -0,0 +1,57 @@
+import { AnalysisPhase, AnalysisProgress } from '@/types/analysis'
+
+// Share of the progress bar reached when each phase starts; fetching dominates on GitHub
+const PHASE_START: Record<AnalysisPhase, number> = {
+  discovering: 0,
+  fetching: 5,
+  parsing: 80,
+  connecting: 95,
+  done: 100
+}
+
+export function createInitialProgress(): AnalysisProgress {
+  return {
+    phase: 'discovering',
+    filesDiscovered: 0,
+    filesToFetch: 0,
+    filesFetched: 0,
+    filesFailed: 0,
+    filesParsed: 0,
+    connectionsResolved: 0
+  }
+}
+
+type ProgressUpdate = Partial<AnalysisProgress> | ((current: AnalysisProgress) => Partial<AnalysisProgress>)
+
+export type ProgressReporter = (update?: ProgressUpdate) => void
+
+// Keeps the running totals and hands listeners a copy on every update
+export function createProgressReporter(onProgress?: (progress: AnalysisProgress) => void): ProgressReporter {
+  const progress = createInitialProgress()
+  return (update: ProgressUpdate = {}) => {
+    Object.assign(progress, typeof update === 'function' ? update(progress) : update)
+    onProgress?.({ ...progress })
+  }
+}
+
+export function progressPercent(progress: AnalysisProgress): number {
+  const start = PHASE_START[progress.phase]
+  const share = progress.phase === 'fetching' ? (progress.filesFetched + progress.filesFailed) / Math.max(progress.filesToFetch, 1)
+    : progress.phase === 'parsing' ? progress.filesParsed / Math.max(progress.filesFetched, 1)
+    : 0
+  const next = progress.phase === 'done' ? 100 : Object.values(PHASE_START).find(value => value > start) ?? 100
+  return Math.round(start + (next - start) * Math.min(share, 1))
+}
+
+export function describeProgress(progress: AnalysisProgress): string {
+  switch (progress.phase) {
+    case 'discovering': return 'Discovering files...'
+    case 'fetching': {
+      const failed = progress.filesFailed > 0 ? `, ${progress.filesFailed} failed` : ''
+      return `Fetching files: ${progress.filesFetched} of ${progress.filesToFetch} (${progress.filesDiscovered} discovered${failed})`
+    }
+    case 'parsing': return `Parsing files: ${progress.filesParsed} of ${progress.filesFetched}`
+    case 'connecting': return `Resolving connections: ${progress.connectionsResolved} found`
+    default: return 'Building navigation graph...'
+  }
+}
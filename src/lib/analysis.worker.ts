@@ -0,0 +1,59 @@
+/// <reference lib="webworker" />
+import { AnalysisWorkerMessage, AnalysisWorkerRequest, FlowAnalysisResult } from '@/types/analysis'
+import { analyzeGitHubRepo, analyzeSource } from '@/lib/github-analyzer'
+import { createSnapshotProvider } from '@/lib/source-providers'
+import { getRateLimit, subscribeToRateLimit } from '@/lib/github-api'
+import { provideGitHubToken } from '@/lib/github-token'
+import { toAnalysisError } from '@/lib/analysis-error'
+
+// Runs analyses off the main thread. The page talks to it through analysis-client.ts.
+declare const self: DedicatedWorkerGlobalScope
+
+const controllers = new Map<number, AbortController>()
+
+function post(message: AnalysisWorkerMessage) {
+  self.postMessage(message)
+}
+
+async function runAnalysis(request: Extract<AnalysisWorkerRequest, { type: 'start' }>) {
+  const { id, source, options } = request
+  const controller = new AbortController()
+  controllers.set(id, controller)
+  provideGitHubToken(request.githubToken)
+  const unsubscribe = subscribeToRateLimit(() => {
+    const rateLimit = getRateLimit()
+    if (rateLimit) post({ type: 'rate-limit', id, rateLimit })
+  })
+
+  try {
+    const analysisOptions = {
+      ...options,
+      signal: controller.signal,
+      onProgress: progress => post({ type: 'progress', id, progress })
+    } satisfies Parameters<typeof analyzeSource>[1]
+
+    let result: FlowAnalysisResult
+    if (source.kind === 'github') {
+      result = await analyzeGitHubRepo(source.url, { ...analysisOptions, ref: source.ref })
+    } else {
+      result = await analyzeSource(createSnapshotProvider(source.snapshot), analysisOptions)
+      const { partial, failedFiles } = source.snapshot
+      if (partial) result = { ...result, partial: true, ...(failedFiles ? { failedFiles } : {}) }
+    }
+    post({ type: 'result', id, result })
+  } catch (error) {
+    post({ type: 'error', id, error: toAnalysisError(error) })
+  } finally {
+    unsubscribe()
+    controllers.delete(id)
+  }
+}
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data
+  if (request.type === 'start') {
+    runAnalysis(request)
+  } else {
+    controllers.get(request.id)?.abort()
+  }
+}
@@ -0,0 +1,199 @@
+import ts from 'typescript'
+import { SourceLocation } from '@/types/analysis'
+
+export type ExportKind = 'default' | 'named' | 'none'
+
+export interface ComponentDeclaration {
+  name: string
+  exportKind: ExportKind
+  returnsJsx: boolean
+  jsxElements: string[] // Unique JSX tag names rendered by the component
+  node: ts.Node
+}
+
+// Call expressions that wrap a component without changing what it renders
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef', 'observer', 'lazy'])
+
+export function getScriptKind(filePath: string): ts.ScriptKind {
+  if (filePath.endsWith('.tsx')) return ts.ScriptKind.TSX
+  if (filePath.endsWith('.jsx')) return ts.ScriptKind.JSX
+  if (filePath.endsWith('.ts')) return ts.ScriptKind.TS
+  return ts.ScriptKind.JS
+}
+
+export function parseSource(content: string, filePath: string): ts.SourceFile {
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath))
+}
+
+export function componentNameFromPath(filePath: string): string {
+  const segments = filePath.replace(/\.(tsx|jsx|ts|js)$/, '').split('/')
+  let base = segments.pop() || 'Component'
+  // index.tsx and Next.js convention files are named after their folder
+  if (['index', 'page', 'layout', 'route'].includes(base) && segments.length > 0) {
+    base = segments.pop()!
+  }
+  const name = base
+    .replace(/[[\]().@]/g, '')
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+  return /^[A-Z]/.test(name) ? name : 'Component'
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name)
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(m => m.kind === kind) ?? false)
+}
+
+function getCalleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) return expression.text
+  if (ts.isPropertyAccessExpression(expression)) return expression.name.text
+  return undefined
+}
+
+function isWrapperCall(node: ts.CallExpression): boolean {
+  const callee = getCalleeName(node.expression)
+  return !!callee && (COMPONENT_WRAPPERS.has(callee) || /^with[A-Z]/.test(callee))
+}
+
+// Unwraps memo(forwardRef(() => ...)), withAuth(Page) and parenthesized expressions
+export function unwrapComponentExpression(expression: ts.Expression): ts.Expression {
+  let current = expression
+  while (true) {
+    if (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current)) {
+      current = current.expression
+    } else if (ts.isCallExpression(current) && isWrapperCall(current) && current.arguments.length > 0) {
+      current = current.arguments[0]
+    } else {
+      return current
+    }
+  }
+}
+
+function isFunctionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)
+}
+
+function isClassComponent(node: ts.ClassLikeDeclaration): boolean {
+  return node.heritageClauses?.some(clause =>
+    clause.types.some(type => /(?:^|\.)(?:Pure)?Component$/.test(type.expression.getText()))
+  ) ?? false
+}
+
+export function getSourceLocation(node: ts.Node, filePath: string): SourceLocation {
+  const sourceFile = node.getSourceFile()
+  const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd())
+  return { filePath, startLine: start.line + 1, startColumn: start.character + 1, endLine: end.line + 1, endColumn: end.character + 1 }
+}
+
+export function getJsxTagName(node: ts.JsxOpeningLikeElement): string {
+  return node.tagName.getText()
+}
+
+// A capitalized function or class declared inside another component renders its own JSX
+function isNestedComponent(node: ts.Node): boolean {
+  if (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) {
+    return !!node.name && isComponentName(node.name.text)
+  }
+  return ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && isComponentName(node.name.text) &&
+    !!node.initializer && isFunctionLike(unwrapComponentExpression(node.initializer))
+}
+
+// Collects JSX tag names rendered inside a node, without descending into nested components
+export function collectJsxElements(root: ts.Node): { returnsJsx: boolean; jsxElements: string[] } {
+  const tags = new Set<string>()
+  let returnsJsx = false
+
+  const visit = (node: ts.Node) => {
+    if (node !== root && isNestedComponent(node)) return
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      returnsJsx = true
+    }
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      tags.add(getJsxTagName(node))
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(root)
+
+  return { returnsJsx, jsxElements: [...tags] }
+}
+
+function createDeclaration(name: string, node: ts.Node, exportKind: ExportKind): ComponentDeclaration {
+  const { returnsJsx, jsxElements } = collectJsxElements(node)
+  return { name, exportKind, returnsJsx, jsxElements, node }
+}
+
+export function findComponents(sourceFile: ts.SourceFile): ComponentDeclaration[] {
+  const components = new Map<string, ComponentDeclaration>()
+  const fallbackName = componentNameFromPath(sourceFile.fileName)
+
+  const register = (name: string, node: ts.Node, exportKind: ExportKind) => {
+    const existing = components.get(name)
+    if (existing) {
+      if (exportKind === 'default' || existing.exportKind === 'none') existing.exportKind = exportKind
+      return
+    }
+    components.set(name, createDeclaration(name, node, exportKind))
+  }
+
+  const promoteExport = (name: string, exportKind: ExportKind) => {
+    const existing = components.get(name)
+    if (existing && (exportKind === 'default' || existing.exportKind === 'none')) {
+      existing.exportKind = exportKind
+    }
+  }
+
+  const statementExportKind = (statement: ts.Statement): ExportKind => {
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) return 'none'
+    return hasModifier(statement, ts.SyntaxKind.DefaultKeyword) ? 'default' : 'named'
+  }
+
+  // First pass: declarations
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.body) {
+      const exportKind = statementExportKind(statement)
+      const name = statement.name?.text ?? (exportKind === 'default' ? fallbackName : undefined)
+      if (name && isComponentName(name)) register(name, statement, exportKind)
+    } else if (ts.isClassDeclaration(statement) && isClassComponent(statement)) {
+      const exportKind = statementExportKind(statement)
+      const name = statement.name?.text ?? (exportKind === 'default' ? fallbackName : undefined)
+      if (name && isComponentName(name)) register(name, statement, exportKind)
+    } else if (ts.isVariableStatement(statement)) {
+      const exportKind = statementExportKind(statement)
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue
+        const name = declaration.name.text
+        if (!isComponentName(name)) continue
+        const target = unwrapComponentExpression(declaration.initializer)
+        if (isFunctionLike(target) || (ts.isClassExpression(target) && isClassComponent(target))) {
+          register(name, target, exportKind)
+        }
+      }
+    }
+  }
+
+  // Second pass: export default X, export default memo(X), export { X, Y as default }
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const target = unwrapComponentExpression(statement.expression)
+      if (ts.isIdentifier(target)) {
+        promoteExport(target.text, 'default')
+      } else if (isFunctionLike(target) || (ts.isClassExpression(target) && isClassComponent(target))) {
+        register(fallbackName, target, 'default')
+      }
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) {
+        const localName = (element.propertyName ?? element.name).text
+        promoteExport(localName, element.name.text === 'default' ? 'default' : 'named')
+      }
+    }
+  }
+
+  return [...components.values()]
+}
@@ -0,0 +1,311 @@
+import { PageFlow } from '@/types/analysis'
+import {
+  BROKEN_LINK_COLOR,
+  CONNECTION_ANCHOR,
+  CONNECTION_TYPES,
+  PAGE_CARD_HEIGHT,
+  PAGE_CARD_WIDTH,
+  PAGE_TYPES,
+  PLACEHOLDER_HEIGHT,
+  PLACEHOLDER_WIDTH,
+  PRIMARY_COLOR,
+  getComplexityHexColors,
+  getConnectionGeometry,
+  getConnectionTypeColor,
+  getPageTypeHexColor,
+  getPlaceholderPositions
+} from '@/lib/flow-styles'
+
+export interface FlowSvgOptions {
+  title?: string
+  selectedPageId?: string | null
+}
+
+export interface FlowSvg {
+  svg: string
+  width: number
+  height: number
+}
+
+const PADDING = 60
+const LEGEND_HEIGHT = 90
+const FONT_FAMILY = 'ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
+const MONO_FONT_FAMILY = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace'
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value
+}
+
+function wrapText(value: string, maxLength: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  for (const word of value.split(/\s+/)) {
+    if (current && `${current} ${word}`.length > maxLength) {
+      lines.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  if (current) lines.push(current)
+  if (lines.length > maxLines) {
+    return [...lines.slice(0, maxLines - 1), truncate(lines.slice(maxLines - 1).join(' '), maxLength)]
+  }
+  return lines
+}
+
+function text(x: number, y: number, content: string, attributes = ''): string {
+  return `<text x="${x}" y="${y}" ${attributes}>${escapeXml(content)}</text>`
+}
+
+function renderPageCard(page: PageFlow, isSelected: boolean): string {
+  const { x, y } = page.position!
+  const complexity = getComplexityHexColors(page.metadata.complexity)
+  const complexityLabel = page.metadata.complexity.toUpperCase()
+  const badgeWidth = complexityLabel.length * 7 + 16
+  const parts: string[] = []
+
+  parts.push(`<g transform="translate(${x} ${y})">`)
+  parts.push(`<rect width="${PAGE_CARD_WIDTH}" height="${PAGE_CARD_HEIGHT}" rx="12" fill="#ffffff" stroke="${isSelected ? PRIMARY_COLOR : '#e2e8f0'}" stroke-width="2" filter="url(#card-shadow)"/>`)
+
+  // Header: type icon, title and route path
+  parts.push(`<rect x="24" y="24" width="40" height="40" rx="12" fill="${getPageTypeHexColor(page.type)}"/>`)
+  parts.push(text(44, 50, page.type.charAt(0).toUpperCase(), 'text-anchor="middle" font-size="16" font-weight="700" fill="#ffffff"'))
+  parts.push(text(76, 42, truncate(page.metadata.title, 18), 'font-size="18" font-weight="700" fill="#0f172a"'))
+  parts.push(text(76, 60, truncate(page.path, 26), `font-size="13" font-family="${MONO_FONT_FAMILY}" fill="#475569"`))
+
+  // Badges on the right
+  let badgeX = PAGE_CARD_WIDTH - 24 - badgeWidth
+  parts.push(`<rect x="${badgeX}" y="28" width="${badgeWidth}" height="20" rx="6" fill="${complexity.background}" stroke="${complexity.border}"/>`)
+  parts.push(text(badgeX + badgeWidth / 2, 42, complexityLabel, `text-anchor="middle" font-size="11" font-weight="600" fill="${complexity.text}"`))
+  if (page.metadata.isProtected) {
+    badgeX -= 78
+    parts.push(`<rect x="${badgeX}" y="28" width="72" height="20" rx="6" fill="#fffbeb" stroke="#fde68a"/>`)
+    parts.push(text(badgeX + 36, 42, 'Protected', 'text-anchor="middle" font-size="11" font-weight="600" fill="#d97706"'))
+  }
+
+  // Description, user actions and entry points
+  wrapText(page.metadata.description, 44, 2).forEach((line, index) => {
+    parts.push(text(24, 98 + index * 18, line, 'font-size="13" fill="#475569"'))
+  })
+  parts.push(text(24, 150, 'User Actions:', 'font-size="11" font-weight="600" fill="#334155"'))
+  parts.push(text(24, 168, truncate(page.metadata.userActions.slice(0, 3).join(' · '), 48), 'font-size="12" fill="#475569"'))
+  parts.push(text(24, 192, 'Entry Points:', 'font-size="11" font-weight="600" fill="#334155"'))
+  parts.push(text(24, 210, truncate(page.metadata.entryPoints.slice(0, 2).join(' · '), 48), 'font-size="12" fill="#2563eb"'))
+
+  // Footer
+  parts.push(`<line x1="24" y1="224" x2="${PAGE_CARD_WIDTH - 24}" y2="224" stroke="#f1f5f9"/>`)
+  parts.push(text(24, 244, truncate(page.filePath.split('/').pop() ?? '', 28), `font-size="11" font-family="${MONO_FONT_FAMILY}" fill="#64748b"`))
+  parts.push(text(PAGE_CARD_WIDTH - 24, 244, `${page.connections.length} connections`, 'text-anchor="end" font-size="11" fill="#334155"'))
+  parts.push('</g>')
+
+  return parts.join('')
+}
+
+function renderConnections(pages: PageFlow[]): string {
+  const byId = new Map(pages.map(page => [page.id, page]))
+  const lines: string[] = []
+  const labels: string[] = []
+
+  for (const page of pages) {
+    for (const connection of page.connections) {
+      const target = byId.get(connection.targetPageId)
+      if (!target?.position || !page.position) continue
+
+      const geometry = getConnectionGeometry(page.position, target.position)
+      const color = getConnectionTypeColor(connection.type)
+      const dash = connection.type === 'conditional' ? ' stroke-dasharray="8,4"' : ''
+      lines.push(`<path d="${geometry.path}" stroke="${color}" stroke-width="3" fill="none"${dash} marker-end="url(#arrowhead)"/>`)
+
+      labels.push(`<rect x="${geometry.midX - 80}" y="${geometry.midY - 10}" width="160" height="${connection.condition ? 34 : 20}" rx="4" fill="#ffffff" fill-opacity="0.9" stroke="#e2e8f0"/>`)
+      labels.push(text(geometry.midX, geometry.midY + 4, truncate(connection.trigger, 26), 'text-anchor="middle" font-size="11" font-weight="500" fill="#0f172a"'))
+      if (connection.condition) {
+        labels.push(text(geometry.midX, geometry.midY + 18, truncate(`if ${connection.condition}`, 28), `text-anchor="middle" font-size="10" font-family="${MONO_FONT_FAMILY}" fill="#475569"`))
+      }
+    }
+  }
+
+  // Labels go on top of every line so crossings stay readable
+  return lines.join('') + labels.join('')
+}
+
+// Dangling edges to the "No matching route" placeholders, as on the canvas
+function renderBrokenLinks(pages: PageFlow[], placeholders: Map<string, { x: number; y: number }>): string {
+  const parts: string[] = []
+  for (const page of pages) {
+    for (const link of page.brokenLinks ?? []) {
+      const target = placeholders.get(link.target)
+      if (!target || !page.position) continue
+      const { path } = getConnectionGeometry(page.position, target)
+      parts.push(`<path d="${path}" stroke="${BROKEN_LINK_COLOR}" stroke-width="2" fill="none" stroke-dasharray="4,4" marker-end="url(#arrowhead)" opacity="0.8"/>`)
+    }
+  }
+
+  placeholders.forEach(({ x, y }, target) => {
+    const left = x + CONNECTION_ANCHOR.x - PLACEHOLDER_WIDTH / 2
+    const top = y + CONNECTION_ANCHOR.y - PLACEHOLDER_HEIGHT / 2
+    parts.push(`<rect x="${left}" y="${top}" width="${PLACEHOLDER_WIDTH}" height="${PLACEHOLDER_HEIGHT}" rx="8" fill="#fef2f2" stroke="#fca5a5" stroke-width="2" stroke-dasharray="6,4"/>`)
+    parts.push(text(left + 12, top + 22, 'No matching route', 'font-size="12" font-weight="600" fill="#b91c1c"'))
+    parts.push(text(left + 12, top + 42, truncate(target, 28), `font-size="14" font-family="${MONO_FONT_FAMILY}" fill="#991b1b"`))
+  })
+  return parts.join('')
+}
+
+function renderLegend(x: number, y: number): string {
+  const parts: string[] = [`<g transform="translate(${x} ${y})">`]
+  parts.push(text(0, 0, 'Connections', 'font-size="12" font-weight="600" fill="#334155"'))
+  CONNECTION_TYPES.forEach((type, index) => {
+    const itemX = index * 130
+    const dash = type === 'conditional' ? ' stroke-dasharray="8,4"' : ''
+    parts.push(`<line x1="${itemX}" y1="18" x2="${itemX + 32}" y2="18" stroke="${getConnectionTypeColor(type)}" stroke-width="3"${dash}/>`)
+    parts.push(text(itemX + 40, 22, type, 'font-size="12" fill="#475569"'))
+  })
+  parts.push(text(0, 50, 'Pages', 'font-size="12" font-weight="600" fill="#334155"'))
+  PAGE_TYPES.forEach((type, index) => {
+    const itemX = index * 130
+    parts.push(`<rect x="${itemX}" y="60" width="14" height="14" rx="4" fill="${getPageTypeHexColor(type)}"/>`)
+    parts.push(text(itemX + 22, 72, type, 'font-size="12" fill="#475569"'))
+  })
+  parts.push('</g>')
+  return parts.join('')
+}
+
+// Renders the canvas as a standalone SVG document, independent of the DOM
+export function buildFlowSvg(pages: PageFlow[], options: FlowSvgOptions = {}): FlowSvg {
+  const positioned = pages.filter(page => page.position)
+  const placeholders = getPlaceholderPositions(positioned)
+  const xs = positioned.map(page => page.position!.x)
+  const ys = positioned.map(page => page.position!.y)
+  const placeholderRight = [...placeholders.values()].map(({ x }) => x + CONNECTION_ANCHOR.x + PLACEHOLDER_WIDTH / 2)
+  const placeholderBottom = [...placeholders.values()].map(({ y }) => y + CONNECTION_ANCHOR.y + PLACEHOLDER_HEIGHT / 2)
+  // Curves bend 60px above the cards, so leave room for the topmost labels
+  const minX = Math.min(...xs, 0) - PADDING
+  const minY = Math.min(...ys, 0) - PADDING - (options.title ? 40 : 0)
+  const maxX = Math.max(...xs.map(x => x + PAGE_CARD_WIDTH), ...placeholderRight, 560) + PADDING
+  const maxY = Math.max(...ys.map(y => y + PAGE_CARD_HEIGHT), ...placeholderBottom, 0) + PADDING
+  const width = Math.ceil(maxX - minX)
+  const height = Math.ceil(maxY - minY + LEGEND_HEIGHT)
+
+  const body = [
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#f8fafc"/>`,
+    options.title ? text(minX + PADDING, minY + PADDING, options.title, 'font-size="22" font-weight="700" fill="#0f172a"') : '',
+    renderConnections(positioned),
+    renderBrokenLinks(positioned, placeholders),
+    ...positioned.map(page => renderPageCard(page, page.id === options.selectedPageId)),
+    renderLegend(minX + PADDING, maxY + 10)
+  ].join('')
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    '<defs>',
+    '<marker id="arrowhead" markerWidth="12" markerHeight="8" refX="11" refY="4" orient="auto">',
+    `<polygon points="0 0, 12 4, 0 8" fill="${PRIMARY_COLOR}"/>`,
+    '</marker>',
+    '<filter id="card-shadow" x="-10%" y="-10%" width="120%" height="130%">',
+    '<feDropShadow dx="0" dy="4" stdDeviation="6" flood-color="#0f172a" flood-opacity="0.08"/>',
+    '</filter>',
+    '</defs>',
+    body,
+    '</svg>'
+  ].join('')
+
+  return { svg, width, height }
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+async function rasterize(flowSvg: FlowSvg, scale: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([flowSvg.svg], { type: 'image/svg+xml;charset=utf-8' }))
+  try {
+    const image = new Image()
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve()
+      image.onerror = () => reject(new Error('Could not render the flow diagram'))
+      image.src = url
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(flowSvg.width * scale)
+    canvas.height = Math.round(flowSvg.height * scale)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas rendering is not supported in this browser')
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+    return canvas
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+export function exportSvg(flowSvg: FlowSvg, fileName: string): void {
+  downloadBlob(new Blob([flowSvg.svg], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`)
+}
+
+export async function exportPng(flowSvg: FlowSvg, fileName: string, scale = 2): Promise<void> {
+  const canvas = await rasterize(flowSvg, scale)
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Could not encode the PNG image')
+  downloadBlob(blob, `${fileName}.png`)
+}
+
+// Large graphs are tiled across landscape A4 pages at print resolution
+export async function exportPdf(flowSvg: FlowSvg, fileName: string): Promise<void> {
+  const { jsPDF } = await import('jspdf')
+  const scale = 2
+  const canvas = await rasterize(flowSvg, scale)
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const margin = 24
+
+  // Fit the diagram to one page when that keeps it legible (at least half size)
+  const fitScale = Math.min((pageWidth - margin * 2) / flowSvg.width, (pageHeight - margin * 2) / flowSvg.height)
+  const printScale = Math.max(fitScale, 0.5)
+  const tileWidth = Math.floor((pageWidth - margin * 2) / printScale * scale)
+  const tileHeight = Math.floor((pageHeight - margin * 2) / printScale * scale)
+  const columns = Math.ceil(canvas.width / tileWidth)
+  const rows = Math.ceil(canvas.height / tileHeight)
+
+  const tile = document.createElement('canvas')
+  const tileContext = tile.getContext('2d')
+  if (!tileContext) throw new Error('Canvas rendering is not supported in this browser')
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const sourceX = column * tileWidth
+      const sourceY = row * tileHeight
+      tile.width = Math.min(tileWidth, canvas.width - sourceX)
+      tile.height = Math.min(tileHeight, canvas.height - sourceY)
+      tileContext.fillStyle = '#ffffff'
+      tileContext.fillRect(0, 0, tile.width, tile.height)
+      tileContext.drawImage(canvas, sourceX, sourceY, tile.width, tile.height, 0, 0, tile.width, tile.height)
+
+      if (row > 0 || column > 0) pdf.addPage()
+      pdf.addImage(tile.toDataURL('image/png'), 'PNG', margin, margin, tile.width / scale * printScale, tile.height / scale * printScale)
+      if (rows * columns > 1) {
+        pdf.setFontSize(8)
+        pdf.text(`${fileName} - page ${row * columns + column + 1} of ${rows * columns} (row ${row + 1}, column ${column + 1})`, margin, pageHeight - 10)
+      }
+    }
+  }
+
+  pdf.save(`${fileName}.pdf`)
+}
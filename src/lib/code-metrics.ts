@@ -0,0 +1,32 @@
+import { ComplexityThresholds, PageFlow, PageMetric, PageMetrics } from '@/types/analysis'
+
+export const PAGE_METRICS: PageMetric[] = ['linesOfCode', 'cyclomaticComplexity', 'hookCount', 'jsxElementCount', 'navigationCount', 'importedComponentCount']
+
+export const PAGE_METRIC_LABELS: Record<PageMetric, string> = {
+  linesOfCode: 'Lines of code',
+  cyclomaticComplexity: 'Cyclomatic complexity',
+  hookCount: 'Hooks',
+  jsxElementCount: 'JSX elements',
+  navigationCount: 'Outbound navigations',
+  importedComponentCount: 'Imported components'
+}
+
+export const DEFAULT_COMPLEXITY_THRESHOLDS: ComplexityThresholds = {
+  linesOfCode: { medium: 80, high: 200 },
+  cyclomaticComplexity: { medium: 10, high: 20 },
+  hookCount: { medium: 5, high: 10 },
+  jsxElementCount: { medium: 40, high: 100 },
+  navigationCount: { medium: 6, high: 12 },
+  importedComponentCount: { medium: 8, high: 15 }
+}
+
+export function resolveThresholds(overrides: Partial<ComplexityThresholds> = {}): ComplexityThresholds {
+  return Object.fromEntries(PAGE_METRICS.map(metric =>
+    [metric, { ...DEFAULT_COMPLEXITY_THRESHOLDS[metric], ...overrides[metric] }])) as ComplexityThresholds
+}
+
+export function rateComplexity(metrics: PageMetrics, thresholds: ComplexityThresholds = DEFAULT_COMPLEXITY_THRESHOLDS): PageFlow['metadata']['complexity'] {
+  if (PAGE_METRICS.some(metric => metrics[metric] >= thresholds[metric].high)) return 'high'
+  if (PAGE_METRICS.some(metric => metrics[metric] >= thresholds[metric].medium)) return 'medium'
+  return 'low'
+}
@@ -0,0 +1,76 @@
+import ts from 'typescript'
+import { PageMetrics } from '@/types/analysis'
+import { getJsxTagName } from '@/lib/ast-analyzer'
+import { ImportBinding } from '@/lib/module-resolver'
+
+// Operators that add a branch, like the if/loop/case statements below
+const BRANCHING_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+])
+
+function isBranch(node: ts.Node): boolean {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CatchClause:
+      return true
+    default:
+      return ts.isBinaryExpression(node) && BRANCHING_OPERATORS.has(node.operatorToken.kind)
+  }
+}
+
+function isHookCall(node: ts.CallExpression): boolean {
+  const callee = node.expression
+  const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined
+  return !!name && /^use[A-Z0-9]/.test(name)
+}
+
+function countCodeLines(node: ts.Node): number {
+  const sourceFile = node.getSourceFile()
+  const text = sourceFile.text.slice(node.getStart(sourceFile), node.getEnd())
+  return text.split('\n').filter(line => {
+    const trimmed = line.trim()
+    return trimmed !== '' && !/^(\/\/|\/\*|\*)/.test(trimmed)
+  }).length
+}
+
+// Everything except navigationCount, which needs the resolved navigations and is filled in by the analyzer
+export function measureComponent(node: ts.Node, imports: Map<string, ImportBinding>): PageMetrics {
+  let branches = 0
+  let hookCount = 0
+  let jsxElementCount = 0
+  const importedComponents = new Set<string>()
+
+  const visit = (child: ts.Node) => {
+    if (isBranch(child)) branches++
+    if (ts.isCallExpression(child) && isHookCall(child)) hookCount++
+    if (ts.isJsxOpeningElement(child) || ts.isJsxSelfClosingElement(child)) {
+      jsxElementCount++
+      // <Icons.Home /> counts the imported Icons namespace
+      const root = getJsxTagName(child).split('.')[0]
+      if (/^[A-Z]/.test(root) && imports.has(root)) importedComponents.add(root)
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+
+  return {
+    linesOfCode: countCodeLines(node),
+    cyclomaticComplexity: branches + 1,
+    hookCount,
+    jsxElementCount,
+    navigationCount: 0,
+    importedComponentCount: importedComponents.size
+  }
+}
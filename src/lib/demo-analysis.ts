@@ -0,0 +1,261 @@
+import { AnalysisError, FlowAnalysisResult } from '@/types/analysis'
+import { assignPageIssues } from '@/lib/page-reachability'
+
+// Sample e-commerce app behind "Try the demo". Never substituted for a failed analysis.
+const DEMO_ANALYSIS: FlowAnalysisResult = {
+  repoUrl: 'https://github.com/demo/react-ecommerce',
+  repoName: 'react-ecommerce',
+  mode: 'demo',
+  pages: [
+    {
+      id: 'home',
+      name: 'Home',
+      path: '/',
+      filePath: 'src/pages/HomePage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'products', type: 'navigation', trigger: 'Shop Now button' },
+        { targetPageId: 'login', type: 'navigation', trigger: 'Login link' },
+        { targetPageId: 'signup', type: 'navigation', trigger: 'Sign Up button' }
+      ],
+      position: { x: 100, y: 200 },
+      metadata: {
+        title: 'Home Page',
+        description: 'Landing page with hero section and featured products',
+        hasAuth: false,
+        hasParams: false,
+        isProtected: false,
+        complexity: 'medium',
+        userActions: ['Browse products', 'Sign up', 'Login'],
+        entryPoints: ['Direct URL', 'Search engines', 'Social media']
+      }
+    },
+    {
+      id: 'products',
+      name: 'Products',
+      path: '/products',
+      filePath: 'src/pages/ProductsPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'product-detail', type: 'navigation', trigger: 'Product card click' },
+        { targetPageId: 'cart', type: 'navigation', trigger: 'Add to cart' },
+        { targetPageId: 'login', type: 'conditional', trigger: 'Wishlist action', condition: 'not authenticated' }
+      ],
+      position: { x: 500, y: 200 },
+      metadata: {
+        title: 'Product Catalog',
+        description: 'Browse and filter products with search functionality',
+        hasAuth: false,
+        hasParams: true,
+        isProtected: false,
+        complexity: 'high',
+        userActions: ['Filter products', 'Search', 'Add to cart', 'View details'],
+        entryPoints: ['Home page', 'Search results', 'Category links']
+      }
+    },
+    {
+      id: 'product-detail',
+      name: 'Product Detail',
+      path: '/products/:id',
+      filePath: 'src/pages/ProductDetailPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'cart', type: 'navigation', trigger: 'Add to cart button' },
+        { targetPageId: 'checkout', type: 'navigation', trigger: 'Buy now button' },
+        { targetPageId: 'products', type: 'navigation', trigger: 'Back to products' }
+      ],
+      position: { x: 900, y: 200 },
+      metadata: {
+        title: 'Product Details',
+        description: 'Detailed product view with images, specs, and reviews',
+        hasAuth: false,
+        hasParams: true,
+        isProtected: false,
+        complexity: 'medium',
+        userActions: ['View images', 'Read reviews', 'Add to cart', 'Share product'],
+        entryPoints: ['Product list', 'Search results', 'Direct link']
+      }
+    },
+    {
+      id: 'login',
+      name: 'Login',
+      path: '/login',
+      filePath: 'src/pages/LoginPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'dashboard', type: 'redirect', trigger: 'Successful login', condition: 'valid credentials' },
+        { targetPageId: 'signup', type: 'navigation', trigger: 'Create account link' },
+        { targetPageId: 'forgot-password', type: 'navigation', trigger: 'Forgot password link' }
+      ],
+      position: { x: 100, y: 500 },
+      metadata: {
+        title: 'User Login',
+        description: 'Authentication form for existing users',
+        hasAuth: true,
+        hasParams: false,
+        isProtected: false,
+        complexity: 'medium',
+        userActions: ['Enter credentials', 'Remember me', 'Forgot password'],
+        entryPoints: ['Header link', 'Protected page redirect', 'Checkout flow']
+      }
+    },
+    {
+      id: 'signup',
+      name: 'Sign Up',
+      path: '/signup',
+      filePath: 'src/pages/SignUpPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'dashboard', type: 'redirect', trigger: 'Account created', condition: 'valid form' },
+        { targetPageId: 'login', type: 'navigation', trigger: 'Already have account link' }
+      ],
+      position: { x: 500, y: 500 },
+      metadata: {
+        title: 'Create Account',
+        description: 'Registration form for new users',
+        hasAuth: true,
+        hasParams: false,
+        isProtected: false,
+        complexity: 'high',
+        userActions: ['Fill form', 'Verify email', 'Accept terms'],
+        entryPoints: ['Home page CTA', 'Login page', 'Checkout flow']
+      }
+    },
+    {
+      id: 'dashboard',
+      name: 'Dashboard',
+      path: '/dashboard',
+      filePath: 'src/pages/DashboardPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'profile', type: 'navigation', trigger: 'Profile link' },
+        { targetPageId: 'orders', type: 'navigation', trigger: 'Order history' },
+        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' }
+      ],
+      position: { x: 900, y: 500 },
+      metadata: {
+        title: 'User Dashboard',
+        description: 'Personalized user area with account overview',
+        hasAuth: true,
+        hasParams: false,
+        isProtected: true,
+        complexity: 'medium',
+        userActions: ['View orders', 'Update profile', 'Manage preferences'],
+        entryPoints: ['Login redirect', 'Header link (authenticated)']
+      }
+    },
+    {
+      id: 'cart',
+      name: 'Shopping Cart',
+      path: '/cart',
+      filePath: 'src/pages/CartPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'checkout', type: 'navigation', trigger: 'Proceed to checkout' },
+        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' },
+        { targetPageId: 'login', type: 'conditional', trigger: 'Checkout', condition: 'not authenticated' }
+      ],
+      position: { x: 100, y: 800 },
+      metadata: {
+        title: 'Shopping Cart',
+        description: 'Review items before checkout',
+        hasAuth: false,
+        hasParams: false,
+        isProtected: false,
+        complexity: 'medium',
+        userActions: ['Update quantities', 'Remove items', 'Apply coupons'],
+        entryPoints: ['Add to cart action', 'Header cart icon']
+      }
+    },
+    {
+      id: 'checkout',
+      name: 'Checkout',
+      path: '/checkout',
+      filePath: 'src/pages/CheckoutPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'order-success', type: 'redirect', trigger: 'Payment success', condition: 'payment processed' },
+        { targetPageId: 'cart', type: 'navigation', trigger: 'Back to cart' }
+      ],
+      position: { x: 500, y: 800 },
+      metadata: {
+        title: 'Checkout',
+        description: 'Payment and shipping information form',
+        hasAuth: true,
+        hasParams: false,
+        isProtected: true,
+        complexity: 'high',
+        userActions: ['Enter shipping', 'Select payment', 'Review order'],
+        entryPoints: ['Cart page', 'Buy now button']
+      }
+    },
+    {
+      id: 'order-success',
+      name: 'Order Success',
+      path: '/order/success',
+      filePath: 'src/pages/OrderSuccessPage.tsx',
+      type: 'page',
+      connections: [
+        { targetPageId: 'dashboard', type: 'navigation', trigger: 'View order details' },
+        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' }
+      ],
+      position: { x: 900, y: 800 },
+      metadata: {
+        title: 'Order Confirmation',
+        description: 'Success page after completed purchase',
+        hasAuth: true,
+        hasParams: true,
+        isProtected: true,
+        complexity: 'low',
+        userActions: ['View order details', 'Download receipt', 'Continue shopping'],
+        entryPoints: ['Checkout completion']
+      }
+    }
+  ],
+  routes: [
+    { path: '/', component: 'HomePage', filePath: 'src/pages/HomePage.tsx' },
+    { path: '/products', component: 'ProductsPage', filePath: 'src/pages/ProductsPage.tsx' },
+    { path: '/products/:id', component: 'ProductDetailPage', filePath: 'src/pages/ProductDetailPage.tsx', params: ['id'] },
+    { path: '/login', component: 'LoginPage', filePath: 'src/pages/LoginPage.tsx' },
+    { path: '/signup', component: 'SignUpPage', filePath: 'src/pages/SignUpPage.tsx' },
+    { path: '/dashboard', component: 'DashboardPage', filePath: 'src/pages/DashboardPage.tsx', guards: ['auth'] },
+    { path: '/cart', component: 'CartPage', filePath: 'src/pages/CartPage.tsx' },
+    { path: '/checkout', component: 'CheckoutPage', filePath: 'src/pages/CheckoutPage.tsx', guards: ['auth'] },
+    { path: '/order/success', component: 'OrderSuccessPage', filePath: 'src/pages/OrderSuccessPage.tsx', guards: ['auth'] }
+  ],
+  userJourneys: [
+    {
+      id: 'guest-purchase',
+      name: 'Guest Purchase Flow',
+      description: 'New visitor discovers and purchases a product',
+      steps: [],
+      startPage: 'home',
+      endPage: 'order-success',
+      userType: 'guest'
+    },
+    {
+      id: 'returning-user',
+      name: 'Returning User Journey',
+      description: 'Authenticated user browses and makes repeat purchase',
+      steps: [],
+      startPage: 'dashboard',
+      endPage: 'order-success',
+      userType: 'authenticated'
+    }
+  ],
+  totalFiles: 45,
+  analyzedFiles: 12,
+  timestamp: new Date().toISOString()
+}
+
+// A fresh copy of the sample analysis. `error` records why a live analysis failed when the
+// user chose the demo from the error screen.
+export function createDemoAnalysis(error?: AnalysisError): FlowAnalysisResult {
+  const demo = structuredClone(DEMO_ANALYSIS)
+  assignPageIssues(demo.pages)
+  return {
+    ...demo,
+    ...(error ? { error } : {}),
+    timestamp: new Date().toISOString()
+  }
+}
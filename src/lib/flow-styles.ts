@@ -0,0 +1,73 @@
+import { PageConnection, PageFlow } from '@/types/analysis'
+
+// Page card size on the canvas (w-80 h-64) and where connection lines attach
+export const PAGE_CARD_WIDTH = 320
+export const PAGE_CARD_HEIGHT = 256
+export const CONNECTION_ANCHOR = { x: 180, y: 140 }
+export const PRIMARY_COLOR = '#6366f1'
+export const BROKEN_LINK_COLOR = '#ef4444'
+// "No matching route" placeholder (w-60), centred on the connection anchor
+export const PLACEHOLDER_WIDTH = 240
+export const PLACEHOLDER_HEIGHT = 56
+
+export const CONNECTION_TYPES: PageConnection['type'][] = ['navigation', 'redirect', 'modal', 'conditional']
+export const PAGE_TYPES: PageFlow['type'][] = ['page', 'layout', 'modal', 'redirect']
+
+export const getConnectionTypeColor = (type: string) => {
+  switch (type) {
+    case 'navigation': return '#3b82f6' // blue
+    case 'redirect': return '#ef4444' // red
+    case 'modal': return '#f59e0b' // amber
+    case 'conditional': return '#8b5cf6' // purple
+    default: return '#6b7280' // gray
+  }
+}
+
+// Diff overlays: green for added, red for removed, amber for changed
+export const getChangeStatusColor = (status: string) => {
+  switch (status) {
+    case 'added': return '#22c55e'
+    case 'removed': return '#ef4444'
+    case 'changed': return '#f59e0b'
+    default: return '#94a3b8'
+  }
+}
+
+// Solid equivalents of the gradients used for page type icons
+export const getPageTypeHexColor = (type: string) => {
+  switch (type) {
+    case 'page': return '#3b82f6'
+    case 'layout': return '#a855f7'
+    case 'modal': return '#f97316'
+    case 'redirect': return '#6b7280'
+    default: return '#64748b'
+  }
+}
+
+export const getComplexityHexColors = (complexity: 'low' | 'medium' | 'high') => {
+  switch (complexity) {
+    case 'low': return { text: '#16a34a', background: '#f0fdf4', border: '#bbf7d0' }
+    case 'medium': return { text: '#ca8a04', background: '#fefce8', border: '#fef08a' }
+    case 'high': return { text: '#dc2626', background: '#fef2f2', border: '#fecaca' }
+    default: return { text: '#4b5563', background: '#f9fafb', border: '#e5e7eb' }
+  }
+}
+
+// Quadratic curve between two page cards, bending upward like the canvas
+export function getConnectionGeometry(from: { x: number; y: number }, to: { x: number; y: number }) {
+  const startX = from.x + CONNECTION_ANCHOR.x
+  const startY = from.y + CONNECTION_ANCHOR.y
+  const endX = to.x + CONNECTION_ANCHOR.x
+  const endY = to.y + CONNECTION_ANCHOR.y
+  const midX = (startX + endX) / 2
+  const midY = (startY + endY) / 2 - 60
+
+  return { startX, startY, endX, endY, midX, midY, path: `M ${startX} ${startY} Q ${midX} ${midY} ${endX} ${endY}` }
+}
+
+// Each missing route gets one placeholder node, stacked to the right of the pages
+export function getPlaceholderPositions(pages: PageFlow[]): Map<string, { x: number; y: number }> {
+  const targets = [...new Set(pages.flatMap(page => (page.brokenLinks ?? []).map(link => link.target)))]
+  const x = Math.max(150, ...pages.map(page => (page.position?.x ?? 0) + 400))
+  return new Map(targets.map((target, index) => [target, { x, y: 150 + index * 140 }]))
+}
@@ -1,359 +1,55 @@
-import { FlowAnalysisResult, PageFlow, RouteInfo, GitHubRepo, UserJourney, PageConnection } from '@/types/analysis'
+import { AnalysisOptions, ComplexityThresholds, FlowAnalysisResult, PageFlow, RouteInfo, SourceLocation, GitHubAnalysisOptions, GitHubRepo, UserJourney } from '@/types/analysis'
+import ts from 'typescript'
+import { findComponents, getSourceLocation, parseSource } from '@/lib/ast-analyzer'
+import { createModuleGraph, createParsedModule, extractRouteConfig, extractRouteParams } from '@/lib/route-config'
+import { extractNavigations, isRedirectComponent, NavigationCall, resolvePathExpression } from '@/lib/navigation-targets'
+import { findPageByPath, flattenRoutes, resolveTargetPath } from '@/lib/route-matcher'
+import { assignPageIssues } from '@/lib/page-reachability'
+import { rateComplexity, resolveThresholds } from '@/lib/code-metrics'
+import { measureComponent } from '@/lib/component-metrics'
+import { collectImports } from '@/lib/module-resolver'
+import { isIgnoredPath, SourceProvider } from '@/lib/source-providers'
+import { readSourceFiles } from '@/lib/source-files'
+import { fetchBlob, fetchRepoTree, fetchWithRetry, parseGitHubUrl, resolveGitHubRef } from '@/lib/github-api'
+import { getGitHubToken } from '@/lib/github-token'
+import { createAnalysisError } from '@/lib/analysis-error'
+import { createProgressReporter } from '@/lib/analysis-progress'
+import { appRouterDisplayName, buildAppRouterRoutes, convertDynamicSegment, findAppRouterRoots, isGenericComponentName, parseAppRouterFile, routeDisplayName } from '@/lib/nextjs-routes'
 
-// Demo data for when GitHub API is unavailable
-const DEMO_ANALYSIS: FlowAnalysisResult = {
-  repoUrl: 'https://github.com/demo/react-ecommerce',
-  repoName: 'react-ecommerce',
-  pages: [
-    {
-      id: 'home',
-      name: 'Home',
-      path: '/',
-      filePath: 'src/pages/HomePage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'products', type: 'navigation', trigger: 'Shop Now button' },
-        { targetPageId: 'login', type: 'navigation', trigger: 'Login link' },
-        { targetPageId: 'signup', type: 'navigation', trigger: 'Sign Up button' }
-      ],
-      position: { x: 100, y: 200 },
-      metadata: {
-        title: 'Home Page',
-        description: 'Landing page with hero section and featured products',
-        hasAuth: false,
-        hasParams: false,
-        isProtected: false,
-        complexity: 'medium',
-        userActions: ['Browse products', 'Sign up', 'Login'],
-        entryPoints: ['Direct URL', 'Search engines', 'Social media']
-      }
-    },
-    {
-      id: 'products',
-      name: 'Products',
-      path: '/products',
-      filePath: 'src/pages/ProductsPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'product-detail', type: 'navigation', trigger: 'Product card click' },
-        { targetPageId: 'cart', type: 'navigation', trigger: 'Add to cart' },
-        { targetPageId: 'login', type: 'conditional', trigger: 'Wishlist action', condition: 'not authenticated' }
-      ],
-      position: { x: 500, y: 200 },
-      metadata: {
-        title: 'Product Catalog',
-        description: 'Browse and filter products with search functionality',
-        hasAuth: false,
-        hasParams: true,
-        isProtected: false,
-        complexity: 'high',
-        userActions: ['Filter products', 'Search', 'Add to cart', 'View details'],
-        entryPoints: ['Home page', 'Search results', 'Category links']
-      }
-    },
-    {
-      id: 'product-detail',
-      name: 'Product Detail',
-      path: '/products/:id',
-      filePath: 'src/pages/ProductDetailPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'cart', type: 'navigation', trigger: 'Add to cart button' },
-        { targetPageId: 'checkout', type: 'navigation', trigger: 'Buy now button' },
-        { targetPageId: 'products', type: 'navigation', trigger: 'Back to products' }
-      ],
-      position: { x: 900, y: 200 },
-      metadata: {
-        title: 'Product Details',
-        description: 'Detailed product view with images, specs, and reviews',
-        hasAuth: false,
-        hasParams: true,
-        isProtected: false,
-        complexity: 'medium',
-        userActions: ['View images', 'Read reviews', 'Add to cart', 'Share product'],
-        entryPoints: ['Product list', 'Search results', 'Direct link']
-      }
-    },
-    {
-      id: 'login',
-      name: 'Login',
-      path: '/login',
-      filePath: 'src/pages/LoginPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'dashboard', type: 'redirect', trigger: 'Successful login', condition: 'valid credentials' },
-        { targetPageId: 'signup', type: 'navigation', trigger: 'Create account link' },
-        { targetPageId: 'forgot-password', type: 'navigation', trigger: 'Forgot password link' }
-      ],
-      position: { x: 100, y: 500 },
-      metadata: {
-        title: 'User Login',
-        description: 'Authentication form for existing users',
-        hasAuth: true,
-        hasParams: false,
-        isProtected: false,
-        complexity: 'medium',
-        userActions: ['Enter credentials', 'Remember me', 'Forgot password'],
-        entryPoints: ['Header link', 'Protected page redirect', 'Checkout flow']
-      }
-    },
-    {
-      id: 'signup',
-      name: 'Sign Up',
-      path: '/signup',
-      filePath: 'src/pages/SignUpPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'dashboard', type: 'redirect', trigger: 'Account created', condition: 'valid form' },
-        { targetPageId: 'login', type: 'navigation', trigger: 'Already have account link' }
-      ],
-      position: { x: 500, y: 500 },
-      metadata: {
-        title: 'Create Account',
-        description: 'Registration form for new users',
-        hasAuth: true,
-        hasParams: false,
-        isProtected: false,
-        complexity: 'high',
-        userActions: ['Fill form', 'Verify email', 'Accept terms'],
-        entryPoints: ['Home page CTA', 'Login page', 'Checkout flow']
-      }
-    },
-    {
-      id: 'dashboard',
-      name: 'Dashboard',
-      path: '/dashboard',
-      filePath: 'src/pages/DashboardPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'profile', type: 'navigation', trigger: 'Profile link' },
-        { targetPageId: 'orders', type: 'navigation', trigger: 'Order history' },
-        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' }
-      ],
-      position: { x: 900, y: 500 },
-      metadata: {
-        title: 'User Dashboard',
-        description: 'Personalized user area with account overview',
-        hasAuth: true,
-        hasParams: false,
-        isProtected: true,
-        complexity: 'medium',
-        userActions: ['View orders', 'Update profile', 'Manage preferences'],
-        entryPoints: ['Login redirect', 'Header link (authenticated)']
-      }
-    },
-    {
-      id: 'cart',
-      name: 'Shopping Cart',
-      path: '/cart',
-      filePath: 'src/pages/CartPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'checkout', type: 'navigation', trigger: 'Proceed to checkout' },
-        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' },
-        { targetPageId: 'login', type: 'conditional', trigger: 'Checkout', condition: 'not authenticated' }
-      ],
-      position: { x: 100, y: 800 },
-      metadata: {
-        title: 'Shopping Cart',
-        description: 'Review items before checkout',
-        hasAuth: false,
-        hasParams: false,
-        isProtected: false,
-        complexity: 'medium',
-        userActions: ['Update quantities', 'Remove items', 'Apply coupons'],
-        entryPoints: ['Add to cart action', 'Header cart icon']
-      }
-    },
-    {
-      id: 'checkout',
-      name: 'Checkout',
-      path: '/checkout',
-      filePath: 'src/pages/CheckoutPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'order-success', type: 'redirect', trigger: 'Payment success', condition: 'payment processed' },
-        { targetPageId: 'cart', type: 'navigation', trigger: 'Back to cart' }
-      ],
-      position: { x: 500, y: 800 },
-      metadata: {
-        title: 'Checkout',
-        description: 'Payment and shipping information form',
-        hasAuth: true,
-        hasParams: false,
-        isProtected: true,
-        complexity: 'high',
-        userActions: ['Enter shipping', 'Select payment', 'Review order'],
-        entryPoints: ['Cart page', 'Buy now button']
-      }
-    },
-    {
-      id: 'order-success',
-      name: 'Order Success',
-      path: '/order/success',
-      filePath: 'src/pages/OrderSuccessPage.tsx',
-      type: 'page',
-      connections: [
-        { targetPageId: 'dashboard', type: 'navigation', trigger: 'View order details' },
-        { targetPageId: 'products', type: 'navigation', trigger: 'Continue shopping' }
-      ],
-      position: { x: 900, y: 800 },
-      metadata: {
-        title: 'Order Confirmation',
-        description: 'Success page after completed purchase',
-        hasAuth: true,
-        hasParams: true,
-        isProtected: true,
-        complexity: 'low',
-        userActions: ['View order details', 'Download receipt', 'Continue shopping'],
-        entryPoints: ['Checkout completion']
-      }
-    }
-  ],
-  routes: [
-    { path: '/', component: 'HomePage', filePath: 'src/pages/HomePage.tsx' },
-    { path: '/products', component: 'ProductsPage', filePath: 'src/pages/ProductsPage.tsx' },
-    { path: '/products/:id', component: 'ProductDetailPage', filePath: 'src/pages/ProductDetailPage.tsx', params: ['id'] },
-    { path: '/login', component: 'LoginPage', filePath: 'src/pages/LoginPage.tsx' },
-    { path: '/signup', component: 'SignUpPage', filePath: 'src/pages/SignUpPage.tsx' },
-    { path: '/dashboard', component: 'DashboardPage', filePath: 'src/pages/DashboardPage.tsx', guards: ['auth'] },
-    { path: '/cart', component: 'CartPage', filePath: 'src/pages/CartPage.tsx' },
-    { path: '/checkout', component: 'CheckoutPage', filePath: 'src/pages/CheckoutPage.tsx', guards: ['auth'] },
-    { path: '/order/success', component: 'OrderSuccessPage', filePath: 'src/pages/OrderSuccessPage.tsx', guards: ['auth'] }
-  ],
-  userJourneys: [
-    {
-      id: 'guest-purchase',
-      name: 'Guest Purchase Flow',
-      description: 'New visitor discovers and purchases a product',
-      steps: [],
-      startPage: 'home',
-      endPage: 'order-success',
-      userType: 'guest'
-    },
-    {
-      id: 'returning-user',
-      name: 'Returning User Journey',
-      description: 'Authenticated user browses and makes repeat purchase',
-      steps: [],
-      startPage: 'dashboard',
-      endPage: 'order-success',
-      userType: 'authenticated'
-    }
-  ],
-  totalFiles: 45,
-  analyzedFiles: 12,
-  timestamp: new Date().toISOString()
-}
-
-interface GitHubFile {
-  name: string
-  path: string
-  type: 'file' | 'dir'
-  download_url?: string
+interface DetectPageOptions {
+  sourceFile?: ts.SourceFile
+  routes?: RouteInfo[] // Configured routes that mount a component from this file
+  complexityThresholds?: ComplexityThresholds
 }
 
-export function parseGitHubUrl(url: string): GitHubRepo | null {
-  try {
-    const cleanUrl = url.trim().replace(/\/$/, '')
-    const match = cleanUrl.match(/github\.com\/([^/]+)\/([^/]+)(?:\/tree\/([^/]+))?/)
-    
-    if (!match) return null
-    
-    return {
-      url: cleanUrl,
-      owner: match[1],
-      name: match[2],
-      branch: match[3] || 'main'
-    }
-  } catch {
-    return null
-  }
-}
-
-async function fetchWithRetry(url: string, options: RequestInit = {}, retries = 2): Promise<Response> {
-  for (let i = 0; i <= retries; i++) {
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'Flowscope-Analyzer',
-          ...options.headers
-        }
-      })
-      
-      if (response.status === 403) {
-        const rateLimitReset = response.headers.get('X-RateLimit-Reset')
-        const resetTime = rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000) : new Date()
-        throw new Error(`GitHub API rate limit exceeded. Resets at ${resetTime.toLocaleTimeString()}`)
-      }
-      
-      if (response.status === 404) {
-        throw new Error('Repository not found. Please check the URL and ensure the repository is public.')
-      }
-      
-      if (!response.ok) {
-        throw new Error(`GitHub API error: ${response.status}`)
-      }
-      
-      return response
-    } catch (error) {
-      if (i === retries) throw error
-      await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
-    }
-  }
-  throw new Error('Max retries exceeded')
-}
-
-async function fetchRepoContents(repo: GitHubRepo, path = ''): Promise<GitHubFile[]> {
-  const url = `https://api.github.com/repos/${repo.owner}/${repo.name}/contents/${path}?ref=${repo.branch}`
-  
-  try {
-    const response = await fetchWithRetry(url)
-    const data = await response.json()
-    
-    if (!Array.isArray(data)) {
-      return []
-    }
-    
-    return data.map((item: any) => ({
-      name: item.name,
-      path: item.path,
-      type: item.type === 'dir' ? 'dir' : 'file',
-      download_url: item.download_url
-    }))
-  } catch (error) {
-    console.error('Error fetching repo contents:', error)
-    throw error
-  }
-}
-
-async function fetchFileContent(downloadUrl: string): Promise<string> {
-  try {
-    const response = await fetchWithRetry(downloadUrl)
-    return await response.text()
-  } catch (error) {
-    console.error('Error fetching file content:', error)
-    return ''
-  }
-}
-
-function detectPageFlows(content: string, filePath: string): PageFlow[] {
+export function detectPageFlows(content: string, filePath: string, options: DetectPageOptions = {}): PageFlow[] {
   const pages: PageFlow[] = []
+  const sourceFile = options.sourceFile ?? parseSource(content, filePath)
+  const routes = options.routes ?? []
+  const imports = collectImports(sourceFile)
+  const appEntry = parseAppRouterFile(filePath)
+  const fileName = filePath.split('/').pop() ?? ''
   
-  // Focus on page-level components (not small UI components)
-  const pageRegex = /(?:export\s+(?:default\s+)?(?:function|const)\s+(\w+)|function\s+(\w+))\s*\([^)]*\)\s*(?::\s*[^{]+)?\s*{[\s\S]*?return\s*\([\s\S]*?<[\s\S]*?>/g
-  const matches = [...content.matchAll(pageRegex)]
+  // loading/error/not-found files are boundaries of a route, not pages of their own
+  if (appEntry && !['page', 'layout', 'template'].includes(appEntry.kind)) return pages
+  if (/^_document\./.test(fileName) || `/${filePath}`.includes('/pages/api/')) return pages
   
-  matches.forEach((match, index) => {
-    const componentName = match[1] || match[2]
-    if (!componentName) return
+  // Only exported components that render JSX (or only redirect) can be mounted as pages; Next.js only mounts the default export
+  const components = findComponents(sourceFile).filter(component => 
+    (component.returnsJsx || isRedirectComponent(component.node)) && component.exportKind !== 'none' && (!appEntry || component.exportKind === 'default')
+  )
+  
+  components.forEach((component, index) => {
+    const componentName = component.name
+    
+    // Components mounted by the router config are pages regardless of naming
+    const route = routes.find(r => r.component === componentName) ?? (appEntry ? routes[0] : undefined)
     
     // Only process page-level components
-    const isPage = filePath.includes('/pages/') || 
-                   filePath.includes('/routes/') || 
-                   filePath.includes('/app/') ||
+    const normalizedPath = `/${filePath}`
+    const isPage = routes.length > 0 ? !!route : !!appEntry || normalizedPath.includes('/pages/') || 
+                   normalizedPath.includes('/routes/') || 
+                   normalizedPath.includes('/app/') ||
                    componentName.toLowerCase().includes('page') ||
                    componentName.toLowerCase().includes('screen') ||
                    componentName.toLowerCase().includes('view')
@@ -366,27 +62,36 @@ function detectPageFlows(content: string, filePath: string): PageFlow[] {
       type = 'layout'
     } else if (componentName.toLowerCase().includes('modal') || componentName.toLowerCase().includes('dialog')) {
       type = 'modal'
-    } else if (componentName.toLowerCase().includes('redirect')) {
+    } else if (componentName.toLowerCase().includes('redirect') || isRedirectComponent(component.node)) {
       type = 'redirect'
     }
+    const isLayoutFile = appEntry ? appEntry.kind !== 'page' : /^_app\./.test(fileName)
+    if (route?.isLayout || isLayoutFile) {
+      type = 'layout'
+    } else if (route?.slot || route?.isIntercepting || appEntry?.slot || appEntry?.isIntercepting) {
+      // Parallel @slot and intercepting routes render on top of the current page
+      type = 'modal'
+    }
     
-    // Extract route path from file structure or component name
-    const routePath = extractRoutePath(filePath, componentName)
+    // Prefer the configured route, then fall back to file structure or component name
+    const routePath = route?.path ?? extractRoutePath(filePath, componentName)
+    const routeParams = route ? route.params ?? [] : appEntry ? extractRouteParams(routePath) : undefined
+    
+    // Next.js convention files usually export generic names such as `Page`; React Router
+    // layout routes often export `Layout`, which must keep a layout label rather than become "Home"
+    const displayName = !isGenericComponentName(componentName) ? componentName
+      : appEntry ? appRouterDisplayName(appEntry) : routeDisplayName(routePath, type === 'layout')
     
     // Analyze page characteristics
     const hasAuth = /useAuth|isAuthenticated|requireAuth|PrivateRoute|ProtectedRoute/.test(content)
-    const hasParams = /useParams|props\.match\.params|\$\{.*\}|:\w+/.test(content)
-    const isProtected = /requireAuth|ProtectedRoute|authGuard|canActivate/.test(content)
-    const hasState = /useState|useReducer|this\.state/.test(content)
-    const hasEffects = /useEffect|componentDidMount|componentDidUpdate/.test(content)
+    const hasParams = routeParams ? routeParams.length > 0 : /useParams|props\.match\.params|\$\{.*\}|:\w+/.test(content)
+    const isProtected = !!route?.guards?.length || /requireAuth|ProtectedRoute|authGuard|canActivate/.test(content)
     const hasAPI = /fetch\(|axios\.|api\.|useQuery|useMutation/.test(content)
     const hasForm = /<form|useForm|Formik|react-hook-form/.test(content)
     
-    // Calculate complexity
-    let complexity: 'low' | 'medium' | 'high' = 'low'
-    const complexityScore = [hasState, hasEffects, hasAPI, hasForm, hasAuth].filter(Boolean).length
-    if (complexityScore >= 4) complexity = 'high'
-    else if (complexityScore >= 2) complexity = 'medium'
+    // Rated again once the analyzer has counted the component's navigations
+    const metrics = measureComponent(component.node, imports)
+    const complexity = rateComplexity(metrics, options.complexityThresholds)
     
     // Extract user actions
     const userActions = extractUserActions(content)
@@ -395,19 +100,21 @@ function detectPageFlows(content: string, filePath: string): PageFlow[] {
     const entryPoints = extractEntryPoints(content, routePath)
     
     pages.push({
-      id: `${componentName.toLowerCase()}-${index}`,
-      name: componentName.replace(/Page$|Screen$|View$/, ''),
+      id: `${displayName.toLowerCase()}-${index}`,
+      name: displayName.replace(/Page$|Screen$|View$/, ''),
       path: routePath,
       filePath,
       type,
       connections: [], // Will be populated later
+      location: getSourceLocation(component.node, filePath),
       metadata: {
-        title: componentName.replace(/Page$|Screen$|View$/, ''),
-        description: generatePageDescription(componentName, hasAuth, hasForm, hasAPI),
+        title: displayName.replace(/Page$|Screen$|View$/, ''),
+        description: generatePageDescription(displayName, hasAuth, hasForm, hasAPI),
         hasAuth,
         hasParams,
         isProtected,
         complexity,
+        metrics,
         userActions,
         entryPoints
       }
@@ -418,14 +125,21 @@ function detectPageFlows(content: string, filePath: string): PageFlow[] {
 }
 
 function extractRoutePath(filePath: string, componentName: string): string {
+  // Next.js App Router: folders define the URL, route groups and @slots are stripped
+  const appEntry = parseAppRouterFile(filePath)
+  if (appEntry) return appEntry.routePath
+  
   // Extract from file path structure
-  if (filePath.includes('/pages/')) {
-    const pathPart = filePath.split('/pages/')[1]
+  const normalizedPath = `/${filePath}`
+  if (normalizedPath.includes('/pages/')) {
+    const pathPart = normalizedPath.split('/pages/')[1]
     if (pathPart) {
       const route = '/' + pathPart
-        .replace(/\.tsx?$/, '')
-        .replace(/\/index$/, '')
-        .replace(/\[([^\]]+)\]/g, ':$1') // Convert [id] to :id
+        .replace(/\.(tsx|jsx|ts|js)$/, '')
+        .replace(/(^|\/)index$/, '')
+        .split('/')
+        .map(convertDynamicSegment) // Convert [id] to :id, [...slug] to :slug+
+        .join('/')
       
       if (route === '/') return '/'
       return route.replace(/\/$/, '') // Remove trailing slash
@@ -471,8 +185,6 @@ function extractEntryPoints(content: string, routePath: string): string[] {
 }
 
 function generatePageDescription(componentName: string, hasAuth: boolean, hasForm: boolean, hasAPI: boolean): string {
-  const name = componentName.replace(/Page$|Screen$|View$/, '').toLowerCase()
-  
   let description = `${componentName.replace(/Page$|Screen$|View$/, '')} page`
   
   if (hasForm) description += ' with form functionality'
@@ -482,215 +194,261 @@ function generatePageDescription(componentName: string, hasAuth: boolean, hasFor
   return description
 }
 
-function extractPageConnections(content: string): PageConnection[] {
-  const connections: PageConnection[] = []
-  
-  // React Router Link components
-  const linkRegex = /<Link[^>]+to=["']([^"']+)["'][^>]*>([^<]*)</g
-  const linkMatches = [...content.matchAll(linkRegex)]
-  linkMatches.forEach(match => {
-    connections.push({
-      targetPageId: match[1],
-      type: 'navigation',
-      trigger: `${match[2] || 'Link'} click`
-    })
-  })
-  
-  // Next.js Link components
-  const nextLinkRegex = /<Link[^>]+href=["']([^"']+)["'][^>]*>([^<]*)</g
-  const nextLinkMatches = [...content.matchAll(nextLinkRegex)]
-  nextLinkMatches.forEach(match => {
-    connections.push({
-      targetPageId: match[1],
-      type: 'navigation',
-      trigger: `${match[2] || 'Link'} click`
-    })
-  })
-  
-  // useNavigate calls
-  const navigateRegex = /navigate\s*\(\s*["']([^"']+)["']\s*\)/g
-  const navigateMatches = [...content.matchAll(navigateRegex)]
-  navigateMatches.forEach(match => {
-    connections.push({
-      targetPageId: match[1],
-      type: 'navigation',
-      trigger: 'Programmatic navigation'
-    })
+function isPageFile(filePath: string): boolean {
+  const normalizedPath = `/${filePath}`
+  return normalizedPath.includes('/pages/') || 
+         normalizedPath.includes('/routes/') || 
+         normalizedPath.includes('/app/') ||
+         (filePath.split('/').pop() ?? '').toLowerCase().includes('page')
+}
+
+function createRouteRedirectPage(route: RouteInfo): PageFlow {
+  const name = `${routeDisplayName(route.path)}Redirect`
+  return {
+    id: name.toLowerCase(),
+    name,
+    path: route.path,
+    filePath: route.filePath,
+    type: 'redirect',
+    connections: [],
+    location: route.location,
+    metadata: {
+      title: name,
+      description: `Redirect from ${route.path} to ${route.redirect!.target ?? route.redirect!.expression}`,
+      hasAuth: false,
+      hasParams: !!route.params?.length,
+      isProtected: !!route.guards?.length,
+      complexity: 'low',
+      userActions: ['Automatic redirect'],
+      entryPoints: ['Direct URL']
+    }
+  }
+}
+
+function isWithin(inner: SourceLocation, outer: SourceLocation | undefined): boolean {
+  if (!outer) return false
+  const startsAfter = inner.startLine > outer.startLine || (inner.startLine === outer.startLine && inner.startColumn >= outer.startColumn)
+  const endsBefore = inner.endLine < outer.endLine || (inner.endLine === outer.endLine && inner.endColumn <= outer.endColumn)
+  return startsAfter && endsBefore
+}
+
+function ensureUniquePageIds(pages: PageFlow[]): void {
+  const seen = new Set<string>()
+  pages.forEach(page => {
+    let id = page.id
+    for (let suffix = 1; seen.has(id); suffix++) id = `${page.id}-${suffix}`
+    page.id = id
+    seen.add(id)
   })
-  
-  // Conditional redirects
-  const redirectRegex = /if\s*\([^)]+\)\s*[^{]*navigate\s*\(\s*["']([^"']+)["']\s*\)/g
-  const redirectMatches = [...content.matchAll(redirectRegex)]
-  redirectMatches.forEach(match => {
-    connections.push({
-      targetPageId: match[1],
-      type: 'conditional',
-      trigger: 'Conditional redirect',
-      condition: 'Based on state/props'
-    })
+}
+
+function assignParentLayouts(pages: PageFlow[], routes: RouteInfo[], parent?: PageFlow): void {
+  routes.forEach(route => {
+    const page = pages.find(p => p.filePath === route.filePath && p.path === route.path) ??
+                 pages.find(p => p.filePath === route.filePath)
+    if (page && parent && page !== parent && !page.parentId) {
+      page.parentId = parent.id
+    }
+    if (route.children) {
+      assignParentLayouts(pages, route.children, route.isLayout && page ? page : parent)
+    }
   })
+}
+
+export function createGitHubProvider(repo: GitHubRepo): SourceProvider {
+  const ref = repo.branch ?? 'HEAD'
+  const blobShas = new Map<string, string>()
   
-  return connections
+  return {
+    type: 'github',
+    name: repo.name,
+    url: repo.url,
+    branch: repo.branch,
+    async listFiles(signal?: AbortSignal, skipDirectory?: (path: string) => boolean) {
+      // One recursive tree request instead of a contents call per folder
+      const files = await fetchRepoTree(repo, ref, path => isIgnoredPath(path) || !!skipDirectory?.(path), signal)
+      files.forEach(file => blobShas.set(file.path, file.sha))
+      return files.map(file => file.path).filter(path => !isIgnoredPath(path))
+    },
+    async readFile(path: string, signal?: AbortSignal) {
+      // raw.githubusercontent.com does not count against the API rate limit but cannot serve
+      // private repositories to the browser, so authenticated reads go through the blob API
+      const sha = blobShas.get(path)
+      if (sha && getGitHubToken()) return fetchBlob(repo, sha, signal)
+
+      const encodedPath = path.split('/').map(encodeURIComponent).join('/')
+      const response = await fetchWithRetry(`https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${ref}/${encodedPath}`, { signal })
+      return response.text()
+    }
+  }
 }
 
-async function analyzePageFlows(repo: GitHubRepo): Promise<{ pages: PageFlow[], routes: RouteInfo[], totalFiles: number, analyzedFiles: number }> {
+async function analyzePageFlows(provider: SourceProvider, options: AnalysisOptions = {}): Promise<{ pages: PageFlow[], routes: RouteInfo[], sources: Record<string, string>, totalFiles: number, analyzedFiles: number, partial: boolean, failedFiles: number }> {
   const pages: PageFlow[] = []
-  const routes: RouteInfo[] = []
-  let totalFiles = 0
-  let analyzedFiles = 0
+  const report = createProgressReporter(options.onProgress)
+  const { paths, files, partial, failedFiles } = await readSourceFiles(provider, options, report)
+  const totalFiles = paths.length
+  const complexityThresholds = resolveThresholds(options.complexityThresholds)
+  
+  report({ phase: 'parsing' })
+  const modules = [...files].map(([filePath, content], index) => {
+    report({ filesParsed: index + 1 })
+    return createParsedModule(filePath, parseSource(content, filePath))
+  })
+  // One graph for the whole analysis: route config and navigation targets resolve imports through it
+  const graph = createModuleGraph(modules)
+  const moduleByPath = graph.modules
+  const appRoots = findAppRouterRoots(files.keys())
+  const appRoutes = buildAppRouterRoutes(files.keys(), filePath => {
+    const module = moduleByPath.get(filePath)
+    const name = module && findComponents(module.sourceFile).find(component => component.exportKind === 'default')?.name
+    return name && !isGenericComponentName(name) ? name : undefined
+  })
+  const configuredRoutes = [...extractRouteConfig(graph, resolvePathExpression), ...appRoutes]
+  const routesByFile = new Map<string, RouteInfo[]>()
+  flattenRoutes(configuredRoutes).forEach(route => {
+    routesByFile.set(route.filePath, [...(routesByFile.get(route.filePath) ?? []), route])
+  })
   
-  async function scanDirectory(path = ''): Promise<void> {
+  for (const module of modules) {
+    const fileRoutes = routesByFile.get(module.filePath)
+    // In App Router projects only convention files (page.tsx, layout.tsx...) are routable
+    const isInsideAppRoot = [...appRoots].some(root => module.filePath.startsWith(`${root}/`))
+    if (!fileRoutes && (!isPageFile(module.filePath) || isInsideAppRoot)) continue
+    
     try {
-      const contents = await fetchRepoContents(repo, path)
-      totalFiles += contents.length
-      
-      for (const item of contents) {
-        if (item.type === 'dir' && (item.name === 'src' || item.name === 'pages' || item.name === 'app' || item.name === 'components')) {
-          await scanDirectory(item.path)
-        } else if (item.type === 'file' && (item.name.endsWith('.tsx') || item.name.endsWith('.jsx')) && item.download_url) {
-          // Only analyze page-level files
-          const isPageFile = item.path.includes('/pages/') || 
-                            item.path.includes('/routes/') || 
-                            item.path.includes('/app/') ||
-                            item.name.toLowerCase().includes('page')
-          
-          if (isPageFile) {
-            try {
-              const content = await fetchFileContent(item.download_url)
-              const pageFlows = detectPageFlows(content, item.path)
-              pages.push(...pageFlows)
-              
-              // Extract routes for page files
-              pageFlows.forEach(page => {
-                if (page.type === 'page') {
-                  routes.push({
-                    path: page.path,
-                    component: page.name,
-                    filePath: page.filePath,
-                    guards: page.metadata.isProtected ? ['auth'] : undefined,
-                    params: page.metadata.hasParams ? ['id'] : undefined
-                  })
-                }
-              })
-              
-              analyzedFiles++
-            } catch (error) {
-              console.warn(`Failed to analyze file ${item.path}:`, error)
-            }
-          }
-        }
-      }
+      pages.push(...detectPageFlows(files.get(module.filePath)!, module.filePath, {
+        sourceFile: module.sourceFile,
+        routes: fileRoutes,
+        complexityThresholds
+      }))
     } catch (error) {
-      console.warn(`Failed to scan directory ${path}:`, error)
+      console.warn(`Failed to analyze file ${module.filePath}:`, error)
     }
   }
   
-  await scanDirectory()
+  // Without a router config, routes are inferred from the detected pages
+  const routes: RouteInfo[] = configuredRoutes.length > 0 ? configuredRoutes : pages
+    .filter(page => page.type === 'page')
+    .map(page => {
+      const params = extractRouteParams(page.path)
+      return {
+        path: page.path,
+        component: page.name,
+        filePath: page.filePath,
+        guards: page.metadata.isProtected ? ['auth'] : undefined,
+        params: params.length > 0 ? params : undefined
+      }
+    })
+  
+  // <Route path="/old" element={<Navigate to="/new" />} /> has no component of its own to detect
+  const redirectRoutes = new Map(flattenRoutes(configuredRoutes)
+    .filter(route => route.redirect && !pages.some(page => page.filePath === route.filePath && page.path === route.path))
+    .map(route => [createRouteRedirectPage(route), route.redirect!]))
+  const routeRedirectPages = [...redirectRoutes.keys()]
+  pages.push(...routeRedirectPages)
+  
+  ensureUniquePageIds(pages)
+  // Redirect routes share the router config's file, which the by-file fallback would mistake for their layout
+  assignParentLayouts(pages.filter(page => !routeRedirectPages.includes(page)), configuredRoutes)
   
   // Build connections between pages
-  for (const page of pages) {
-    if (page.filePath) {
-      try {
-        const content = await fetchFileContent(`https://raw.githubusercontent.com/${repo.owner}/${repo.name}/${repo.branch}/${page.filePath}`)
-        const connections = extractPageConnections(content)
-        
-        // Map connections to actual page IDs
-        connections.forEach(conn => {
-          const targetPage = pages.find(p => p.path === conn.targetPageId)
-          if (targetPage) {
-            page.connections.push({
-              ...conn,
-              targetPageId: targetPage.id
-            })
-          }
-        })
-      } catch (error) {
-        console.warn(`Failed to extract connections from ${page.filePath}:`, error)
-      }
+  report({ phase: 'connecting' })
+  const navigationsByFile = new Map<string, NavigationCall[]>()
+  for (const [page, { target, expression, location }] of redirectRoutes) {
+    const trigger = 'Redirect route element'
+    const targetPage = target === undefined ? undefined : findPageByPath(pages, target, page.path)
+    if (target === undefined) {
+      page.unresolvedConnections = [{ expression, type: 'redirect', trigger, location }]
+    } else if (targetPage) {
+      page.connections.push({ targetPageId: targetPage.id, type: 'redirect', trigger, location })
+      report(current => ({ connectionsResolved: current.connectionsResolved + 1 }))
+    } else {
+      page.brokenLinks = [{ target: resolveTargetPath(target, page.path), expression, type: 'redirect', trigger, location }]
     }
   }
   
-  return { pages, routes, totalFiles, analyzedFiles }
-}
-
-export async function analyzeGitHubRepo(url: string): Promise<FlowAnalysisResult> {
-  try {
-    const repo = parseGitHubUrl(url)
-    if (!repo) {
-      throw new Error('Invalid GitHub URL. Please provide a valid GitHub repository URL.')
-    }
-    
-    console.log(`Analyzing repository: ${repo.owner}/${repo.name}`)
-    
-    // Test API access first
-    try {
-      await fetchWithRetry(`https://api.github.com/repos/${repo.owner}/${repo.name}`)
-    } catch (error) {
-      console.error('GitHub API access failed:', error)
-      
-      // Return demo data with a note about the limitation
-      const demoResult = {
-        ...DEMO_ANALYSIS,
-        repoUrl: url,
-        repoName: repo.name,
-        timestamp: new Date().toISOString()
-      }
-      
-      // Add a note to the first page about demo mode
-      if (demoResult.pages.length > 0) {
-        demoResult.pages[0].metadata = {
-          ...demoResult.pages[0].metadata,
-          description: '⚠️ Demo data - GitHub API unavailable. This shows sample page flow analysis.'
-        }
-      }
-      
-      throw new Error(`GitHub API unavailable (${error instanceof Error ? error.message : 'Unknown error'}). Showing demo visualization instead.`)
-    }
-    
-    const analysis = await analyzePageFlows(repo)
-    
-    // Generate user journeys based on detected pages
-    const userJourneys = generateUserJourneys(analysis.pages)
+  for (const page of pages) {
+    const module = moduleByPath.get(page.filePath)
+    if (!module || routeRedirectPages.includes(page)) continue
     
-    return {
-      repoUrl: url,
-      repoName: repo.name,
-      pages: analysis.pages,
-      routes: analysis.routes,
-      userJourneys,
-      totalFiles: analysis.totalFiles,
-      analyzedFiles: analysis.analyzedFiles,
-      timestamp: new Date().toISOString()
+    if (!navigationsByFile.has(page.filePath)) navigationsByFile.set(page.filePath, extractNavigations(module, graph))
+    const navigations = navigationsByFile.get(page.filePath)!
+    if (page.metadata.metrics) {
+      // Files can export several pages: each counts its own navigations plus file-level ones such as loader redirects
+      const siblings = pages.filter(other => other !== page && other.filePath === page.filePath)
+      page.metadata.metrics.navigationCount = navigations.filter(navigation => isWithin(navigation.location, page.location) ||
+        !siblings.some(other => isWithin(navigation.location, other.location))).length
+      page.metadata.complexity = rateComplexity(page.metadata.metrics, complexityThresholds)
     }
-    
-  } catch (error) {
-    console.error('Repository analysis failed:', error)
-    
-    // If it's a rate limit or API error, return demo data
-    if (error instanceof Error && (error.message.includes('rate limit') || error.message.includes('API'))) {
-      const repo = parseGitHubUrl(url)
-      const demoResult = {
-        ...DEMO_ANALYSIS,
-        repoUrl: url,
-        repoName: repo?.name || 'demo-repo',
-        timestamp: new Date().toISOString()
+    for (const { target, expression, location, ...connection } of navigations) {
+      if (target === undefined) {
+        page.unresolvedConnections = [...(page.unresolvedConnections ?? []), { ...connection, expression, location }]
+        continue
       }
-      
-      // Add error context to demo data
-      if (demoResult.pages.length > 0) {
-        demoResult.pages[0].metadata = {
-          ...demoResult.pages[0].metadata,
-          description: `⚠️ ${error.message}. Showing demo visualization instead.`
-        }
+      const targetPage = findPageByPath(pages, target, page.path)
+      if (targetPage) {
+        page.connections.push({ ...connection, targetPageId: targetPage.id, location })
+        report(current => ({ connectionsResolved: current.connectionsResolved + 1 }))
+      } else {
+        // Relative targets are stored resolved, so the report shows the full path that failed to match
+        page.brokenLinks = [...(page.brokenLinks ?? []), { ...connection, target: resolveTargetPath(target, page.path), expression, location }]
       }
-      
-      return demoResult
     }
-    
-    throw error
+  }
+  
+  assignPageIssues(pages)
+  
+  // Page files are kept for the source viewer; connections all originate in them
+  const sources = Object.fromEntries(pages.map(page => [page.filePath, files.get(page.filePath) ?? '']))
+  
+  report({ phase: 'done' })
+  return { pages, routes, sources, totalFiles, analyzedFiles: modules.length, partial, failedFiles }
+}
+
+export async function analyzeSource(provider: SourceProvider, options: AnalysisOptions = {}): Promise<FlowAnalysisResult> {
+  const analysis = await analyzePageFlows(provider, options)
+  
+  // Generate user journeys based on detected pages
+  const userJourneys = generateUserJourneys(analysis.pages)
+  
+  return {
+    repoUrl: provider.url,
+    repoName: provider.name,
+    mode: 'live',
+    sourceType: provider.type,
+    ...(provider.branch ? { branch: provider.branch } : {}),
+    pages: analysis.pages,
+    routes: analysis.routes,
+    sources: analysis.sources,
+    userJourneys,
+    totalFiles: analysis.totalFiles,
+    analyzedFiles: analysis.analyzedFiles,
+    ...(analysis.partial ? { partial: true } : {}),
+    ...(analysis.failedFiles > 0 ? { failedFiles: analysis.failedFiles } : {}),
+    timestamp: new Date().toISOString()
   }
 }
 
+export async function analyzeGitHubRepo(url: string, options: GitHubAnalysisOptions = {}): Promise<FlowAnalysisResult> {
+  const { ref, ...analysisOptions } = options
+  const repo = parseGitHubUrl(url)
+  if (!repo) {
+    throw createAnalysisError('invalid-url', 'Invalid GitHub URL. Please provide a valid GitHub repository URL.')
+  }
+  
+  console.log(`Analyzing repository: ${repo.owner}/${repo.name}`)
+  
+  // Resolving the ref doubles as the API access check
+  const resolvedRef = ref ?? await resolveGitHubRef(repo)
+  if (analysisOptions.signal?.aborted) {
+    throw createAnalysisError('cancelled', 'Analysis cancelled before any files were read')
+  }
+  
+  // Files are read at the commit sha so a branch moving mid-analysis cannot mix revisions
+  const result = await analyzeSource(createGitHubProvider({ ...repo, branch: resolvedRef.sha }), analysisOptions)
+  return { ...result, branch: resolvedRef.name, ref: resolvedRef }
+}
 function generateUserJourneys(pages: PageFlow[]): UserJourney[] {
   const journeys: UserJourney[] = []
   
@@ -0,0 +1,311 @@
+import { GitHubRateLimit, GitHubRefList, GitHubRepo, GitRef } from '@/types/analysis'
+import { getGitHubToken } from '@/lib/github-token'
+import { createAnalysisError } from '@/lib/analysis-error'
+
+export const GITHUB_API_URL = 'https://api.github.com'
+
+const DEFAULT_HEADERS = {
+  'Accept': 'application/vnd.github.v3+json',
+  'User-Agent': 'Flowscope-Analyzer'
+}
+
+let rateLimit: GitHubRateLimit | null = null
+const rateLimitListeners = new Set<() => void>()
+
+export function getRateLimit(): GitHubRateLimit | null {
+  return rateLimit
+}
+
+export function subscribeToRateLimit(listener: () => void): () => void {
+  rateLimitListeners.add(listener)
+  return () => {
+    rateLimitListeners.delete(listener)
+  }
+}
+
+// Also used to mirror quota seen by the analysis worker on the page
+export function setRateLimit(next: GitHubRateLimit): void {
+  rateLimit = next
+  rateLimitListeners.forEach(listener => listener())
+}
+
+function recordRateLimit(response: Response, authenticated: boolean) {
+  const remaining = response.headers.get('X-RateLimit-Remaining')
+  const limit = response.headers.get('X-RateLimit-Limit')
+  const reset = response.headers.get('X-RateLimit-Reset')
+  if (remaining === null || limit === null) return
+
+  setRateLimit({
+    limit: parseInt(limit),
+    remaining: parseInt(remaining),
+    resetAt: new Date((reset ? parseInt(reset) : Date.now() / 1000) * 1000).toISOString(),
+    authenticated
+  })
+}
+
+// Single request without retries or status handling, for probes where 404 is an answer.
+// The token is only sent to the API host, never to raw.githubusercontent.com.
+export async function githubFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const token = url.startsWith(GITHUB_API_URL) ? getGitHubToken() : null
+  const response = await fetch(url, {
+    ...options,
+    headers: {
+      ...DEFAULT_HEADERS,
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      ...options.headers
+    }
+  })
+  if (url.startsWith(GITHUB_API_URL)) recordRateLimit(response, !!token)
+  return response
+}
+
+// Turns a failed response into a message that says what to do about it
+export function describeGitHubError(response: Response): Error {
+  const hasToken = !!getGitHubToken()
+  const status = response.status
+
+  if (status === 401) {
+    return createAnalysisError('unauthorized', hasToken
+      ? 'GitHub rejected the access token (401). It may be mistyped, expired or revoked; update it in GitHub settings.'
+      : 'GitHub requires authentication (401). Add a personal access token in GitHub settings.', { status })
+  }
+
+  if ((status === 403 || status === 429) && response.headers.get('X-RateLimit-Remaining') === '0') {
+    const rateLimitReset = response.headers.get('X-RateLimit-Reset')
+    const resetTime = rateLimitReset ? new Date(parseInt(rateLimitReset) * 1000) : new Date()
+    const hint = hasToken ? '' : ' Add a personal access token in GitHub settings to raise the limit from 60 to 5,000 requests per hour.'
+    return createAnalysisError('rate-limited', `GitHub API rate limit exceeded. Resets at ${resetTime.toLocaleTimeString()}.${hint}`, {
+      status,
+      resetAt: resetTime.toISOString()
+    })
+  }
+
+  if (status === 403) {
+    // Anonymous 403s with quota left are GitHub's secondary (burst) limit
+    return hasToken
+      ? createAnalysisError('forbidden', 'GitHub denied access (403). The token cannot read this repository: classic tokens need the "repo" scope, fine-grained tokens need read access to Contents, and organizations with SSO must authorize the token.', { status })
+      : createAnalysisError('rate-limited', 'GitHub denied access (403). Wait a minute and retry, or add a personal access token in GitHub settings.', { status })
+  }
+
+  if (status === 404) {
+    return createAnalysisError('not-found', hasToken
+      ? 'Repository not found. Please check the URL and that the access token can read this repository.'
+      : 'Repository not found. Please check the URL and ensure the repository is public, or add an access token for private repositories.', { status })
+  }
+
+  return createAnalysisError('unknown', `GitHub API error: ${status}`, { status })
+}
+
+// Retries network failures and server errors; client errors are final and reported right away
+export async function fetchWithRetry(url: string, options: RequestInit = {}, retries = 2): Promise<Response> {
+  for (let i = 0; i <= retries; i++) {
+    let response: Response
+    try {
+      response = await githubFetch(url, options)
+    } catch (error) {
+      // Aborts are deliberate; only network failures are worth another attempt
+      if (i === retries || options.signal?.aborted) throw error
+      await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
+      continue
+    }
+
+    if (response.ok) return response
+    if (response.status < 500 || i === retries) throw describeGitHubError(response)
+    await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)))
+  }
+  throw new Error('Max retries exceeded')
+}
+
+function repoApiUrl(repo: GitHubRepo, path = ''): string {
+  return `${GITHUB_API_URL}/repos/${repo.owner}/${repo.name}${path}`
+}
+
+// Ref names are path-like; encode each segment but keep the slashes
+function encodeRef(name: string): string {
+  return name.split('/').map(encodeURIComponent).join('/')
+}
+
+export function shortSha(sha: string): string {
+  return sha.slice(0, 7)
+}
+
+export async function fetchDefaultBranch(repo: GitHubRepo): Promise<string> {
+  const response = await fetchWithRetry(repoApiUrl(repo))
+  const data = await response.json()
+  return data.default_branch || 'main'
+}
+
+async function fetchRefNames(repo: GitHubRepo, kind: 'branches' | 'tags'): Promise<GitRef[]> {
+  const response = await fetchWithRetry(repoApiUrl(repo, `/${kind}?per_page=100`))
+  const data: { name: string; commit: { sha: string } }[] = await response.json()
+  return data.map(item => ({ type: kind === 'branches' ? 'branch' : 'tag', name: item.name, sha: item.commit.sha }))
+}
+
+export async function fetchRecentCommits(repo: GitHubRepo, ref: string, limit = 20): Promise<GitRef[]> {
+  const response = await fetchWithRetry(repoApiUrl(repo, `/commits?sha=${encodeURIComponent(ref)}&per_page=${limit}`))
+  const data: { sha: string; commit: { message: string; author?: { date?: string } } }[] = await response.json()
+  return data.map(item => ({
+    type: 'commit',
+    name: shortSha(item.sha),
+    sha: item.sha,
+    message: item.commit.message.split('\n')[0],
+    date: item.commit.author?.date
+  }))
+}
+
+export async function listGitHubRefs(repo: GitHubRepo): Promise<GitHubRefList> {
+  const defaultBranch = await fetchDefaultBranch(repo)
+  const [branches, tags, commits] = await Promise.all([
+    fetchRefNames(repo, 'branches'),
+    fetchRefNames(repo, 'tags'),
+    fetchRecentCommits(repo, defaultBranch)
+  ])
+
+  // Default branch first, the rest alphabetically
+  branches.sort((a, b) => Number(b.name === defaultBranch) - Number(a.name === defaultBranch) || a.name.localeCompare(b.name))
+  return { defaultBranch, branches, tags, commits }
+}
+
+async function lookupRef(repo: GitHubRepo, type: 'branch' | 'tag', name: string): Promise<GitRef | null> {
+  const namespace = type === 'branch' ? 'heads' : 'tags'
+  const response = await githubFetch(repoApiUrl(repo, `/git/ref/${namespace}/${encodeRef(name)}`))
+  if (response.status === 404) return null
+  if (!response.ok) throw describeGitHubError(response)
+
+  const data: { object: { sha: string; type: string } } = await response.json()
+  // Annotated tags point at a tag object; peel it to reach the commit
+  if (data.object.type === 'tag') {
+    const tag = await (await fetchWithRetry(repoApiUrl(repo, `/git/tags/${data.object.sha}`))).json()
+    return { type, name, sha: tag.object.sha }
+  }
+  return { type, name, sha: data.object.sha }
+}
+
+async function lookupCommit(repo: GitHubRepo, sha: string): Promise<GitRef | null> {
+  const response = await githubFetch(repoApiUrl(repo, `/commits/${encodeURIComponent(sha)}`))
+  if (response.status === 404 || response.status === 422) return null
+  if (!response.ok) throw describeGitHubError(response)
+
+  const data: { sha: string; commit: { message: string; author?: { date?: string } } } = await response.json()
+  return {
+    type: 'commit',
+    name: shortSha(data.sha),
+    sha: data.sha,
+    message: data.commit.message.split('\n')[0],
+    date: data.commit.author?.date
+  }
+}
+
+// Resolves the URL's ref (or the default branch) to a commit. `/tree/feature/login/src` is ambiguous,
+// so the longest prefix that names an existing branch or tag wins.
+export async function resolveGitHubRef(repo: GitHubRepo): Promise<GitRef> {
+  if (!repo.refPath) {
+    const defaultBranch = await fetchDefaultBranch(repo)
+    const ref = await lookupRef(repo, 'branch', defaultBranch)
+    if (!ref) throw createAnalysisError('not-found', `Default branch "${defaultBranch}" was not found. The repository may be empty.`)
+    return ref
+  }
+
+  const segments = repo.refPath.split('/').filter(Boolean)
+  for (let length = segments.length; length > 0; length--) {
+    const candidate = segments.slice(0, length).join('/')
+    const ref = await lookupRef(repo, 'branch', candidate) ?? await lookupRef(repo, 'tag', candidate)
+    if (ref) return ref
+  }
+
+  if (/^[0-9a-f]{7,40}$/i.test(segments[0])) {
+    const commit = await lookupCommit(repo, segments[0])
+    if (commit) return commit
+  }
+
+  throw createAnalysisError('not-found', `Branch, tag or commit "${repo.refPath}" was not found in ${repo.owner}/${repo.name}`)
+}
+
+export interface GitTreeFile {
+  path: string
+  sha: string // Blob sha
+  size?: number
+}
+
+interface GitTreeResponse {
+  truncated: boolean
+  tree: { path: string; type: 'blob' | 'tree' | 'commit'; sha: string; size?: number }[]
+}
+
+// Blob contents by sha; unlike raw.githubusercontent.com this works for private repositories
+export async function fetchBlob(repo: GitHubRepo, sha: string, signal?: AbortSignal): Promise<string> {
+  const response = await fetchWithRetry(repoApiUrl(repo, `/git/blobs/${sha}`), {
+    headers: { 'Accept': 'application/vnd.github.raw' },
+    signal
+  })
+  return response.text()
+}
+
+async function fetchTree(repo: GitHubRepo, treeSha: string, recursive: boolean, signal?: AbortSignal): Promise<GitTreeResponse> {
+  const response = await fetchWithRetry(repoApiUrl(repo, `/git/trees/${encodeURIComponent(treeSha)}${recursive ? '?recursive=1' : ''}`), { signal })
+  return response.json()
+}
+
+// Lists every file at `ref` in one request. GitHub truncates recursive trees above ~100k entries,
+// but lists them in path order, so everything up to the last entry received is complete: only the
+// folders on that entry's path can be missing children, and folders that sort after it are missing
+// entirely. Those are listed again, skipping ones `skipDirectory` rejects.
+export async function fetchRepoTree(repo: GitHubRepo, ref: string, skipDirectory: (path: string) => boolean = () => false, signal?: AbortSignal): Promise<GitTreeFile[]> {
+  const files: GitTreeFile[] = []
+  const seen = new Set<string>()
+  const addFile = (path: string, sha: string, size?: number) => {
+    if (seen.has(path)) return
+    seen.add(path)
+    files.push({ path, sha, size })
+  }
+
+  const listSubtree = async (prefix: string, sha: string): Promise<void> => {
+    const join = (path: string) => prefix ? `${prefix}/${path}` : path
+    const listing = await fetchTree(repo, sha, true, signal)
+    listing.tree.filter(entry => entry.type === 'blob').forEach(entry => addFile(join(entry.path), entry.sha, entry.size))
+    if (!listing.truncated || listing.tree.length === 0) return
+
+    const listedFolders = new Map(listing.tree.filter(entry => entry.type === 'tree').map(entry => [entry.path, entry.sha]))
+    // The subtree's root and every folder above the last entry (or the last entry itself when it
+    // is a folder whose contents were cut off), outermost first
+    const last = listing.tree[listing.tree.length - 1]
+    const lastFolder = last.path.split('/').slice(0, last.type === 'tree' ? undefined : -1)
+    const openFolders = ['', ...lastFolder.map((_, index) => lastFolder.slice(0, index + 1).join('/'))]
+    for (const folder of openFolders) {
+      const folderSha = folder ? listedFolders.get(folder) : sha
+      if (!folderSha || (folder && skipDirectory(join(folder)))) continue
+      const children = await fetchTree(repo, folderSha, false, signal)
+      for (const entry of children.tree) {
+        const path = folder ? `${folder}/${entry.path}` : entry.path
+        if (entry.type === 'blob') {
+          addFile(join(path), entry.sha, entry.size)
+        } else if (entry.type === 'tree' && !listedFolders.has(path) && !skipDirectory(join(path))) {
+          await listSubtree(join(path), entry.sha)
+        }
+      }
+    }
+  }
+
+  await listSubtree('', ref)
+  return files
+}
+
+// Accepts repo URLs, `/tree/<ref>` and `/commit/<sha>` links and `owner/name` shorthand.
+// The ref is kept verbatim because branch names may contain slashes; resolveGitHubRef sorts it out.
+export function parseGitHubUrl(url: string): GitHubRepo | null {
+  try {
+    const cleanUrl = url.trim().replace(/\/+$/, '')
+    const match = cleanUrl.match(/^(?:(?:https?:\/\/)?(?:www\.)?github\.com\/)?([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:\/(?:tree|commit)\/([^?#]+))?(?:[?#].*)?$/)
+    
+    if (!match) return null
+    
+    return {
+      url: `https://github.com/${match[1]}/${match[2]}`,
+      owner: match[1],
+      name: match[2],
+      refPath: match[3] ? decodeURIComponent(match[3]) : undefined
+    }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,46 @@
+// Personal access token for the GitHub API. Session-only tokens live in sessionStorage and vanish
+// with the tab; persisted ones go to localStorage. Only one of the two holds a token at a time.
+
+const TOKEN_STORAGE_KEY = 'flowscope.githubToken'
+
+function storage(kind: 'session' | 'local'): Storage | null {
+  try {
+    // Unavailable outside the browser (CLI) and may throw when storage is disabled
+    return kind === 'session' ? globalThis.sessionStorage ?? null : globalThis.localStorage ?? null
+  } catch {
+    return null
+  }
+}
+
+// Workers have no Web Storage; the page hands them its token with each analysis
+let providedToken: string | null | undefined
+
+export function provideGitHubToken(token: string | null): void {
+  providedToken = token
+}
+
+export function getGitHubToken(): string | null {
+  if (providedToken !== undefined) return providedToken
+  return storage('session')?.getItem(TOKEN_STORAGE_KEY) || storage('local')?.getItem(TOKEN_STORAGE_KEY) || null
+}
+
+export function isGitHubTokenPersisted(): boolean {
+  return !!storage('local')?.getItem(TOKEN_STORAGE_KEY)
+}
+
+export function saveGitHubToken(token: string, persist: boolean): void {
+  clearGitHubToken()
+  const target = storage(persist ? 'local' : 'session')
+  if (!target) throw new Error('Browser storage is unavailable')
+  target.setItem(TOKEN_STORAGE_KEY, token.trim())
+}
+
+export function clearGitHubToken(): void {
+  storage('session')?.removeItem(TOKEN_STORAGE_KEY)
+  storage('local')?.removeItem(TOKEN_STORAGE_KEY)
+}
+
+// Shown in the UI instead of the token itself
+export function maskGitHubToken(token: string): string {
+  return token.length <= 8 ? '••••' : `${token.slice(0, 4)}…${token.slice(-4)}`
+}
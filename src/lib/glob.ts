@@ -0,0 +1,102 @@
+// Minimal glob matching for include/exclude filters: `**`, `*`, `?` and `{a,b}` alternatives.
+// Paths are relative to the project root and use '/'.
+
+const cache = new Map<string, RegExp>()
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^$()|[\]\\]/g, '\\$&')
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob)
+  if (cached) return cached
+
+  let source = ''
+  let braceDepth = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more folders, a trailing `**` matches everything below
+        const slash = glob[i + 2] === '/'
+        source += slash ? '(?:.*/)?' : '.*'
+        i += slash ? 2 : 1
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      braceDepth++
+      source += '(?:'
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--
+      source += ')'
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|'
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  const regExp = new RegExp(`^${source}$`)
+  cache.set(glob, regExp)
+  return regExp
+}
+
+// Patterns without a slash match the file name anywhere, like .gitignore
+export function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^\.?\//, '')
+  if (!pattern) return false
+  if (!pattern.includes('/')) return globToRegExp(pattern).test(path.split('/').pop() ?? path)
+  return globToRegExp(pattern).test(path)
+}
+
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  return globs.some(glob => matchesGlob(path, glob))
+}
+
+function mayIncludeBelow(directory: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^\.?\//, '')
+  // File-name patterns match anywhere; slashes inside `{a,b}` defeat the per-folder check
+  if (!pattern.includes('/') || /\{[^}]*\/[^}]*\}/.test(pattern)) return true
+  const patternSegments = pattern.split('/')
+  const folders = directory.split('/')
+  for (let i = 0; i < folders.length; i++) {
+    const segment = patternSegments[i]
+    if (segment === '**' || segment.includes('**')) return true
+    // The pattern's last segment names the file, which cannot be a folder this deep
+    if (i >= patternSegments.length - 1) return false
+    if (!globToRegExp(segment).test(folders[i])) return false
+  }
+  return true
+}
+
+// Whether files below `directory` can pass the filters, so listings can skip whole folders:
+// an include glob's leading folders must fit the directory, and no `.../**` exclude may cover it
+export function mayMatchBelow(directory: string, include: string[] = [], exclude: string[] = []): boolean {
+  if (include.length > 0 && !include.some(glob => mayIncludeBelow(directory, glob))) return false
+  return !exclude.some(glob => {
+    const pattern = glob.trim().replace(/^\.?\//, '')
+    return pattern.endsWith('/**') && globToRegExp(pattern.slice(0, -3)).test(directory)
+  })
+}
+
+// Splits user input on new lines and on commas outside `{a,b}` groups
+export function parseGlobList(value: string): string[] {
+  const globs: string[] = []
+  let current = ''
+  let braceDepth = 0
+  for (const char of value) {
+    if (char === '{') braceDepth++
+    if (char === '}') braceDepth = Math.max(0, braceDepth - 1)
+    if (char === '\n' || (char === ',' && braceDepth === 0)) {
+      globs.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  globs.push(current)
+  return globs.map(glob => glob.trim()).filter(Boolean)
+}
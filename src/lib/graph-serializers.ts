@@ -0,0 +1,130 @@
+import { FlowAnalysisResult, PageConnection, PageFlow } from '@/types/analysis'
+import { getConnectionTypeColor } from '@/lib/flow-styles'
+
+export type GraphFormat = 'mermaid' | 'dot' | 'plantuml'
+
+export const GRAPH_FORMATS: { format: GraphFormat; label: string; extension: string }[] = [
+  { format: 'mermaid', label: 'Mermaid', extension: 'mmd' },
+  { format: 'dot', label: 'Graphviz DOT', extension: 'dot' },
+  { format: 'plantuml', label: 'PlantUML', extension: 'puml' }
+]
+
+interface GraphEdge {
+  from: PageFlow
+  to: PageFlow
+  connection: PageConnection
+}
+
+// Connections pointing at pages outside the result (or filtered out) are skipped
+function collectEdges(pages: PageFlow[]): GraphEdge[] {
+  const byId = new Map(pages.map(page => [page.id, page]))
+  return pages.flatMap(page => page.connections
+    .filter(connection => byId.has(connection.targetPageId))
+    .map(connection => ({ from: page, to: byId.get(connection.targetPageId)!, connection })))
+}
+
+// Page ids contain dashes and digits; every format wants a plain identifier
+function nodeId(page: PageFlow): string {
+  const id = page.id.replace(/[^A-Za-z0-9_]/g, '_')
+  return /^[A-Za-z_]/.test(id) ? id : `p_${id}`
+}
+
+function edgeLabel(connection: PageConnection): string {
+  return connection.condition ? `${connection.trigger} [${connection.condition}]` : connection.trigger
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;')
+}
+
+function mermaidNode(page: PageFlow): string {
+  const label = `"${escapeMermaid(page.metadata.title)}<br/><small>${escapeMermaid(page.path)}</small>"`
+  switch (page.type) {
+    case 'layout': return `${nodeId(page)}[[${label}]]`
+    case 'modal': return `${nodeId(page)}([${label}])`
+    case 'redirect': return `${nodeId(page)}{{${label}}}`
+    default: return `${nodeId(page)}[${label}]`
+  }
+}
+
+export function toMermaid(result: FlowAnalysisResult): string {
+  const edges = collectEdges(result.pages)
+  const lines = ['flowchart LR', `  %% ${result.repoName}`]
+
+  for (const page of result.pages) lines.push(`  ${mermaidNode(page)}`)
+  for (const { from, to, connection } of edges) {
+    const arrow = connection.type === 'conditional' ? '-.->' : connection.type === 'redirect' ? '==>' : '-->'
+    lines.push(`  ${nodeId(from)} ${arrow}|"${escapeMermaid(edgeLabel(connection))}"| ${nodeId(to)}`)
+  }
+  // linkStyle indexes follow the order edges were declared in
+  edges.forEach(({ connection }, index) => {
+    const dash = connection.type === 'conditional' ? ',stroke-dasharray:6 4' : ''
+    lines.push(`  linkStyle ${index} stroke:${getConnectionTypeColor(connection.type)},stroke-width:2px${dash}`)
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+const DOT_SHAPES: Record<PageFlow['type'], string> = {
+  page: 'box',
+  layout: 'box3d',
+  modal: 'component',
+  redirect: 'hexagon'
+}
+
+export function toDot(result: FlowAnalysisResult): string {
+  const lines = [
+    `digraph "${escapeDot(result.repoName)}" {`,
+    '  rankdir=LR;',
+    '  node [style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];'
+  ]
+
+  for (const page of result.pages) {
+    const style = page.metadata.isProtected ? ', penwidth=2, color="#d97706"' : ''
+    lines.push(`  "${nodeId(page)}" [label="${escapeDot(page.metadata.title)}\\n${escapeDot(page.path)}", shape=${DOT_SHAPES[page.type]}${style}];`)
+  }
+  for (const { from, to, connection } of collectEdges(result.pages)) {
+    const color = getConnectionTypeColor(connection.type)
+    const style = connection.type === 'conditional' ? ', style=dashed' : connection.type === 'redirect' ? ', style=bold' : ''
+    lines.push(`  "${nodeId(from)}" -> "${nodeId(to)}" [label="${escapeDot(edgeLabel(connection))}", color="${color}", fontcolor="${color}"${style}];`)
+  }
+
+  lines.push('}')
+  return `${lines.join('\n')}\n`
+}
+
+const PLANTUML_ELEMENTS: Record<PageFlow['type'], string> = {
+  page: 'rectangle',
+  layout: 'frame',
+  modal: 'card',
+  redirect: 'hexagon'
+}
+
+export function toPlantUml(result: FlowAnalysisResult): string {
+  const lines = ['@startuml', `title ${result.repoName}`, 'left to right direction']
+
+  for (const page of result.pages) {
+    const title = page.metadata.title.replace(/"/g, "'")
+    lines.push(`${PLANTUML_ELEMENTS[page.type]} "${title}\\n${page.path}" as ${nodeId(page)}`)
+  }
+  for (const { from, to, connection } of collectEdges(result.pages)) {
+    const dash = connection.type === 'conditional' ? ',dashed' : connection.type === 'redirect' ? ',bold' : ''
+    lines.push(`${nodeId(from)} -[${getConnectionTypeColor(connection.type)}${dash}]-> ${nodeId(to)} : ${edgeLabel(connection).replace(/\n/g, ' ')}`)
+  }
+
+  lines.push('@enduml')
+  return `${lines.join('\n')}\n`
+}
+
+export function serializeGraph(result: FlowAnalysisResult, format: GraphFormat): string {
+  switch (format) {
+    case 'mermaid': return toMermaid(result)
+    case 'dot': return toDot(result)
+    case 'plantuml': return toPlantUml(result)
+  }
+}
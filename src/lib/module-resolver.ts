@@ -0,0 +1,129 @@
+import ts from 'typescript'
+
+export interface ImportBinding {
+  specifier: string
+  importedName: string // 'default', '*' or the exported name
+}
+
+const RESOLVE_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '/index.tsx', '/index.ts', '/index.jsx', '/index.js']
+
+// Common path aliases in Vite/Next/CRA projects, mapped to the source root
+const PATH_ALIASES: [string, string][] = [
+  ['@/', 'src/'],
+  ['~/', 'src/'],
+  ['src/', 'src/']
+]
+
+// The scanned files and every folder that holds one, built once per analysis so resolving an
+// alias checks a folder with a lookup instead of a pass over all files
+export interface FileIndex {
+  files: Set<string>
+  directories: Set<string> // With a trailing slash, e.g. 'packages/web/src/'
+}
+
+export function createFileIndex(files: Iterable<string>): FileIndex {
+  const index: FileIndex = { files: new Set(files), directories: new Set() }
+  for (const file of index.files) {
+    for (let end = file.indexOf('/'); end !== -1; end = file.indexOf('/', end + 1)) {
+      index.directories.add(file.slice(0, end + 1))
+    }
+  }
+  return index
+}
+
+function isLazyCall(node: ts.Node): node is ts.CallExpression {
+  if (!ts.isCallExpression(node)) return false
+  const callee = node.expression
+  const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : ''
+  return name === 'lazy' || name === 'loadable' || name === 'dynamic'
+}
+
+// Finds the module specifier of `() => import('./x')`, including `.then(m => ...)` chains
+export function getDynamicImportSpecifier(node: ts.Node): string | undefined {
+  let specifier: string | undefined
+  const visit = (child: ts.Node) => {
+    if (specifier) return
+    if (ts.isCallExpression(child) && child.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      const [argument] = child.arguments
+      if (argument && ts.isStringLiteralLike(argument)) specifier = argument.text
+      return
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  return specifier
+}
+
+export function collectImports(sourceFile: ts.SourceFile): Map<string, ImportBinding> {
+  const imports = new Map<string, ImportBinding>()
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const specifier = statement.moduleSpecifier.text
+      const clause = statement.importClause
+      if (!clause) continue
+      if (clause.name) imports.set(clause.name.text, { specifier, importedName: 'default' })
+      if (clause.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          imports.set(clause.namedBindings.name.text, { specifier, importedName: '*' })
+        } else {
+          for (const element of clause.namedBindings.elements) {
+            imports.set(element.name.text, { specifier, importedName: (element.propertyName ?? element.name).text })
+          }
+        }
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      // const Page = lazy(() => import('./pages/Page'))
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer || !isLazyCall(declaration.initializer)) continue
+        const specifier = getDynamicImportSpecifier(declaration.initializer)
+        if (specifier) imports.set(declaration.name.text, { specifier, importedName: 'default' })
+      }
+    }
+  }
+
+  return imports
+}
+
+function normalizePath(path: string): string {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+function dirname(filePath: string): string {
+  const index = filePath.lastIndexOf('/')
+  return index === -1 ? '' : filePath.slice(0, index)
+}
+
+function findSourceRoot(fromFile: string, knownFiles: FileIndex, aliasTarget: string): string {
+  // Monorepo packages keep their own src/, so prefer the closest one to the importing file
+  const segments = fromFile.split('/')
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const candidate = [...segments.slice(0, i), aliasTarget].join('/')
+    if (knownFiles.directories.has(candidate)) return candidate
+  }
+  return aliasTarget
+}
+
+export function resolveModulePath(fromFile: string, specifier: string, knownFiles: FileIndex): string | undefined {
+  let basePath: string | undefined
+
+  if (specifier.startsWith('.')) {
+    basePath = normalizePath(`${dirname(fromFile)}/${specifier}`)
+  } else {
+    const alias = PATH_ALIASES.find(([prefix]) => specifier.startsWith(prefix))
+    if (!alias) return undefined // Package import
+    basePath = normalizePath(findSourceRoot(fromFile, knownFiles, alias[1]) + specifier.slice(alias[0].length))
+  }
+
+  for (const extension of RESOLVE_EXTENSIONS) {
+    const candidate = `${basePath}${extension}`
+    if (knownFiles.files.has(candidate)) return candidate
+  }
+  return undefined
+}
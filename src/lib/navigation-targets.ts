@@ -0,0 +1,457 @@
+import ts from 'typescript'
+import { PageConnection, SourceLocation } from '@/types/analysis'
+import { getJsxTagName, getSourceLocation } from '@/lib/ast-analyzer'
+import { ModuleGraph, ParsedModule, resolveVariable } from '@/lib/route-config'
+import { resolveModulePath } from '@/lib/module-resolver'
+
+export interface NavigationCall {
+  target?: string // Path or pattern such as '/products/:id'; missing when it cannot be worked out statically
+  expression: string // Source text of the target argument
+  type: PageConnection['type']
+  trigger: string
+  condition?: string
+  location: SourceLocation // The link or call
+}
+
+const LINK_COMPONENTS = new Set(['Link', 'NavLink'])
+const LINK_PACKAGES = new Set(['next/link'])
+const LINK_ATTRIBUTES = new Set(['to', 'href'])
+const NAVIGATOR_HOOKS = new Set(['useNavigate', 'useRouter', 'useHistory'])
+const ROUTER_METHODS = new Set(['push', 'replace', 'navigate'])
+const REDIRECT_COMPONENTS = new Set(['Navigate', 'Redirect'])
+const REDIRECT_ATTRIBUTES = new Set(['to'])
+// React Router / Remix loaders and actions, Next.js server components and route handlers
+const REDIRECT_FUNCTIONS = new Set(['redirect', 'permanentRedirect', 'redirectDocument'])
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect'])
+const LOCATION_OBJECTS = new Set(['window.location', 'location', 'document.location'])
+// Objects whose push/replace navigate even without a hook in sight (next/router's default export, history singletons)
+const DEFAULT_ROUTER_OBJECTS = ['router', 'history', 'Router']
+const MAX_RESOLVE_DEPTH = 10
+
+interface ResolvedNode {
+  module: ParsedModule
+  node: ts.Node
+}
+
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current) ||
+    ts.isNonNullExpression(current) || ts.isTypeAssertionExpression(current)) {
+    current = current.expression
+  }
+  return current
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name)) return name.text
+  return undefined
+}
+
+function getMemberName(node: ts.PropertyAccessExpression | ts.ElementAccessExpression): string | undefined {
+  if (ts.isPropertyAccessExpression(node)) return node.name.text
+  const argument = unwrapExpression(node.argumentExpression)
+  return ts.isStringLiteralLike(argument) || ts.isNumericLiteral(argument) ? argument.text : undefined
+}
+
+// `${product.id}` becomes ':id', anything else ':param'
+function placeholderFor(expression: ts.Expression): string {
+  const node = unwrapExpression(expression)
+  if (ts.isIdentifier(node)) return `:${node.text}`
+  if (ts.isPropertyAccessExpression(node)) return `:${node.name.text}`
+  return ':param'
+}
+
+function importedModule(graph: ModuleGraph, module: ParsedModule, name: string): ParsedModule | undefined {
+  const binding = module.imports.get(name)
+  if (!binding) return undefined
+  const filePath = resolveModulePath(module.filePath, binding.specifier, graph.knownFiles)
+  return filePath ? graph.modules.get(filePath) : undefined
+}
+
+// `const target = '/login'` declared in a block enclosing the use site
+function findLocalConst(identifier: ts.Identifier): ts.Expression | undefined {
+  for (let scope: ts.Node | undefined = identifier.parent; scope; scope = scope.parent) {
+    if (!ts.isBlock(scope)) continue
+    for (const statement of scope.statements) {
+      if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) continue
+      const declaration = statement.declarationList.declarations.find(candidate =>
+        ts.isIdentifier(candidate.name) && candidate.name.text === identifier.text)
+      if (declaration?.initializer) return declaration.initializer
+    }
+  }
+  return undefined
+}
+
+function findEnumMember(graph: ModuleGraph, module: ParsedModule, enumName: string, memberName: string): ResolvedNode | undefined {
+  const local = module.sourceFile.statements.find((statement): statement is ts.EnumDeclaration =>
+    ts.isEnumDeclaration(statement) && statement.name.text === enumName)
+  if (local) {
+    const member = local.members.find(candidate => getPropertyName(candidate.name) === memberName)
+    return member?.initializer ? { module, node: member.initializer } : undefined
+  }
+  const binding = module.imports.get(enumName)
+  const target = importedModule(graph, module, enumName)
+  if (!binding || !target || binding.importedName === '*' || binding.importedName === 'default') return undefined
+  return findEnumMember(graph, target, binding.importedName, memberName)
+}
+
+// Follows identifiers and member accesses (ROUTES.checkout, routes['cart'], Paths.Home) to the expression they stand for
+function dereference(graph: ModuleGraph, module: ParsedModule, expression: ts.Expression, depth: number): ResolvedNode | undefined {
+  if (depth > MAX_RESOLVE_DEPTH) return undefined
+  const node = unwrapExpression(expression)
+
+  if (ts.isIdentifier(node)) {
+    const local = node.getSourceFile() === module.sourceFile ? findLocalConst(node) : undefined
+    if (local) return dereference(graph, module, local, depth + 1)
+    const variable = resolveVariable(graph, module, node.text)
+    return variable ? dereference(graph, variable.module, variable.initializer, depth + 1) : undefined
+  }
+
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+    const name = getMemberName(node)
+    if (name === undefined) return undefined
+    const owner = unwrapExpression(node.expression)
+
+    if (ts.isIdentifier(owner)) {
+      // import * as routes from './routes'
+      const namespace = module.imports.get(owner.text)?.importedName === '*' ? importedModule(graph, module, owner.text) : undefined
+      if (namespace) {
+        const variable = resolveVariable(graph, namespace, name)
+        return variable ? dereference(graph, variable.module, variable.initializer, depth + 1) : undefined
+      }
+      const enumMember = findEnumMember(graph, module, owner.text, name)
+      if (enumMember) return enumMember
+    }
+
+    const object = dereference(graph, module, owner, depth + 1)
+    if (!object || !ts.isObjectLiteralExpression(object.node)) return undefined
+    for (const property of object.node.properties) {
+      if (!property.name || getPropertyName(property.name) !== name) continue
+      if (ts.isPropertyAssignment(property)) return dereference(graph, object.module, property.initializer, depth + 1)
+      if (ts.isShorthandPropertyAssignment(property)) return dereference(graph, object.module, property.name, depth + 1)
+      if (ts.isMethodDeclaration(property)) return { module: object.module, node: property }
+    }
+    return undefined
+  }
+
+  return { module, node }
+}
+
+// The returned expression of `(id) => \`/products/${id}\`` or `product(id) { return ... }`
+function getReturnedExpression(node: ts.Node): ts.Expression | undefined {
+  if (!ts.isArrowFunction(node) && !ts.isFunctionExpression(node) && !ts.isMethodDeclaration(node)) return undefined
+  if (!node.body) return undefined
+  if (!ts.isBlock(node.body)) return node.body
+  const returns = node.body.statements.filter(ts.isReturnStatement)
+  return returns.length === 1 ? returns[0].expression : undefined
+}
+
+function getCalleeName(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) return expression.text
+  if (ts.isPropertyAccessExpression(expression)) return expression.name.text
+  return undefined
+}
+
+// Resolves a navigation target to a path. Parts that only exist at runtime become `:name` placeholders,
+// so `/products/${id}` and `ROUTES.product(id)` both come out as '/products/:id'
+export function resolvePathExpression(graph: ModuleGraph, module: ParsedModule, expression: ts.Expression, depth = 0): string | undefined {
+  const resolved = dereference(graph, module, expression, depth)
+  if (!resolved) return undefined
+  const { node } = resolved
+  const resolve = (child: ts.Expression) => resolvePathExpression(graph, resolved.module, child, depth + 1)
+
+  if (ts.isStringLiteralLike(node)) return node.text
+
+  if (ts.isTemplateExpression(node)) {
+    return node.templateSpans.reduce((path, span) =>
+      path + (resolve(span.expression) ?? placeholderFor(span.expression)) + span.literal.text, node.head.text)
+  }
+
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    const left = resolve(node.left)
+    const right = resolve(node.right)
+    if (left === undefined && right === undefined) return undefined
+    return (left ?? placeholderFor(node.left)) + (right ?? placeholderFor(node.right))
+  }
+
+  // router.push({ pathname: '/search', query }) and navigate({ pathname, search })
+  if (ts.isObjectLiteralExpression(node)) {
+    const pathname = node.properties.find(property => property.name && getPropertyName(property.name) === 'pathname')
+    if (pathname && ts.isPropertyAssignment(pathname)) return resolve(pathname.initializer)
+    if (pathname && ts.isShorthandPropertyAssignment(pathname)) return resolve(pathname.name)
+    return undefined
+  }
+
+  if (ts.isCallExpression(node)) {
+    // generatePath('/products/:id', { id }) keeps the route pattern
+    if (getCalleeName(node.expression) === 'generatePath') {
+      return node.arguments[0] ? resolve(node.arguments[0]) : undefined
+    }
+    const callee = dereference(graph, resolved.module, node.expression, depth + 1)
+    const returned = callee && getReturnedExpression(callee.node)
+    return returned ? resolvePathExpression(graph, callee.module, returned, depth + 1) : undefined
+  }
+
+  return undefined
+}
+
+// Names bound to navigate functions (`const navigate = useNavigate()`, `const { push } = useRouter()`),
+// mapped to the router method they call, and names bound to router objects (`const router = useRouter()`)
+function collectNavigators(sourceFile: ts.SourceFile): { functions: Map<string, string>; objects: Set<string> } {
+  const functions = new Map([['navigate', 'navigate']])
+  const objects = new Set(DEFAULT_ROUTER_OBJECTS)
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      const initializer = unwrapExpression(node.initializer)
+      const hook = ts.isCallExpression(initializer) ? getCalleeName(initializer.expression) : undefined
+      if (hook && NAVIGATOR_HOOKS.has(hook)) {
+        if (ts.isIdentifier(node.name)) {
+          if (hook === 'useNavigate') functions.set(node.name.text, 'navigate')
+          else objects.add(node.name.text)
+        } else if (ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            const property = element.propertyName ?? element.name
+            if (ts.isIdentifier(property) && ts.isIdentifier(element.name) && ROUTER_METHODS.has(property.text)) {
+              functions.set(element.name.text, property.text)
+            }
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return { functions, objects }
+}
+
+// The router method a call goes through ('navigate', 'push', 'replace'), if it navigates at all
+function getNavigationMethod(node: ts.CallExpression, navigators: { functions: Map<string, string>; objects: Set<string> }): string | undefined {
+  const callee = node.expression
+  if (ts.isIdentifier(callee)) return navigators.functions.get(callee.text)
+  if (ts.isPropertyAccessExpression(callee) && ROUTER_METHODS.has(callee.name.text) &&
+    ts.isIdentifier(callee.expression) && navigators.objects.has(callee.expression.text)) {
+    return callee.name.text
+  }
+  return undefined
+}
+
+// navigate('/login', { replace: true })
+function hasReplaceOption(node: ts.CallExpression): boolean {
+  const options = node.arguments[1] && unwrapExpression(node.arguments[1])
+  return !!options && ts.isObjectLiteralExpression(options) && options.properties.some(property =>
+    ts.isPropertyAssignment(property) && getPropertyName(property.name) === 'replace' &&
+    property.initializer.kind === ts.SyntaxKind.TrueKeyword)
+}
+
+// window.location.replace('/login') swaps the current history entry, like a server redirect
+function isLocationReplace(node: ts.CallExpression): boolean {
+  const callee = node.expression
+  return ts.isPropertyAccessExpression(callee) && callee.name.text === 'replace' &&
+    LOCATION_OBJECTS.has(callee.expression.getText())
+}
+
+function isRedirectFunctionCall(node: ts.Node): node is ts.CallExpression {
+  return ts.isCallExpression(node) && ts.isIdentifier(node.expression) && REDIRECT_FUNCTIONS.has(node.expression.text)
+}
+
+const NEGATED_OPERATORS = new Map<ts.SyntaxKind, string>([
+  [ts.SyntaxKind.EqualsEqualsEqualsToken, '!=='],
+  [ts.SyntaxKind.ExclamationEqualsEqualsToken, '==='],
+  [ts.SyntaxKind.EqualsEqualsToken, '!='],
+  [ts.SyntaxKind.ExclamationEqualsToken, '=='],
+  [ts.SyntaxKind.LessThanToken, '>='],
+  [ts.SyntaxKind.LessThanEqualsToken, '>'],
+  [ts.SyntaxKind.GreaterThanToken, '<='],
+  [ts.SyntaxKind.GreaterThanEqualsToken, '<']
+])
+const MAX_CONDITION_LENGTH = 80
+
+function conditionText(node: ts.Node): string {
+  return node.getText().replace(/\s+/g, ' ')
+}
+
+function stripParentheses(expression: ts.Expression): ts.Expression {
+  let current = expression
+  while (ts.isParenthesizedExpression(current)) current = current.expression
+  return current
+}
+
+// `!user` for the then-branch, `user` for the else-branch; comparisons flip their operator
+function describeCondition(expression: ts.Expression, negate: boolean): string {
+  const node = stripParentheses(expression)
+  if (!negate) return conditionText(node)
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.ExclamationToken) {
+    return conditionText(stripParentheses(node.operand))
+  }
+  const operator = ts.isBinaryExpression(node) ? NEGATED_OPERATORS.get(node.operatorToken.kind) : undefined
+  if (ts.isBinaryExpression(node) && operator) return `${conditionText(node.left)} ${operator} ${conditionText(node.right)}`
+  const isSimple = ts.isIdentifier(node) || ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)
+  return isSimple ? `!${conditionText(node)}` : `!(${conditionText(node)})`
+}
+
+// The if/ternary/&& guards around a node within its function, outermost first, e.g. `!user` for
+// `if (!user) navigate('/login')` or `items.length === 0` for `{items.length === 0 && <Link ... />}`
+function getGuardCondition(node: ts.Node): string | undefined {
+  const guards: string[] = []
+  for (let child = node, parent = node.parent; parent && !ts.isFunctionLike(parent); child = parent, parent = parent.parent) {
+    if (ts.isIfStatement(parent) && child !== parent.expression) {
+      guards.unshift(describeCondition(parent.expression, child === parent.elseStatement))
+    } else if (ts.isConditionalExpression(parent) && child !== parent.condition) {
+      guards.unshift(describeCondition(parent.condition, child === parent.whenFalse))
+    } else if (ts.isBinaryExpression(parent) && child === parent.right) {
+      const operator = parent.operatorToken.kind
+      if (operator === ts.SyntaxKind.AmpersandAmpersandToken) guards.unshift(describeCondition(parent.left, false))
+      else if (operator === ts.SyntaxKind.BarBarToken) guards.unshift(describeCondition(parent.left, true))
+      else if (operator === ts.SyntaxKind.QuestionQuestionToken) guards.unshift(`${conditionText(parent.left)} == null`)
+    }
+  }
+  if (guards.length === 0) return undefined
+  const condition = guards.length === 1 ? guards[0] : guards.map(guard => /\|\||\?\?/.test(guard) ? `(${guard})` : guard).join(' && ')
+  return condition.length > MAX_CONDITION_LENGTH ? `${condition.slice(0, MAX_CONDITION_LENGTH - 1)}…` : condition
+}
+
+function guardOf(node: ts.Node): Pick<NavigationCall, 'condition'> {
+  const condition = getGuardCondition(node)
+  return condition ? { condition } : {}
+}
+
+// 'useEffect' when the node runs as part of an effect callback
+function getEnclosingEffect(node: ts.Node): string | undefined {
+  for (let child = node, parent = node.parent; parent; child = parent, parent = parent.parent) {
+    if (ts.isCallExpression(parent) && parent.arguments[0] === child) {
+      const hook = getCalleeName(parent.expression)
+      if (hook && EFFECT_HOOKS.has(hook)) return hook
+    }
+  }
+  return undefined
+}
+
+// Name of the innermost named function around a node: `loader`, `action`, a component...
+function getEnclosingFunctionName(node: ts.Node): string | undefined {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (ts.isFunctionDeclaration(parent) && parent.name) return parent.name.text
+    if ((ts.isArrowFunction(parent) || ts.isFunctionExpression(parent)) &&
+      ts.isVariableDeclaration(parent.parent) && ts.isIdentifier(parent.parent.name)) {
+      return parent.parent.name.text
+    }
+  }
+  return undefined
+}
+
+type NavigationKind = Pick<NavigationCall, 'type' | 'trigger' | 'condition'>
+
+// Effects and replace-style calls redirect; anything else is a navigation, conditional when guarded
+function classifyCall(node: ts.CallExpression, isReplace: boolean): NavigationKind {
+  const call = `${node.expression.getText()}()`
+  const effect = getEnclosingEffect(node)
+  const condition = guardOf(node)
+  if (effect) return { type: 'redirect', trigger: `${call} in ${effect}`, ...condition }
+  if (isReplace) return { type: 'redirect', trigger: call, ...condition }
+  return { type: condition.condition ? 'conditional' : 'navigation', trigger: 'Programmatic navigation', ...condition }
+}
+
+// redirect() thrown or returned from a loader or action, or called while rendering a server component
+function classifyRedirectFunction(node: ts.CallExpression): NavigationKind {
+  const call = `${node.expression.getText()}()`
+  const functionName = getEnclosingFunctionName(node) ?? ''
+  const condition = guardOf(node)
+  if (/^(client)?loader$/i.test(functionName)) return { type: 'redirect', trigger: `${call} in loader`, ...condition }
+  if (/^(client)?action$/i.test(functionName)) return { type: 'redirect', trigger: `${call} in action`, ...condition }
+  return { type: 'redirect', trigger: call, ...condition }
+}
+
+function isLinkComponent(module: ParsedModule, tagName: string): boolean {
+  const binding = module.imports.get(tagName)
+  return LINK_COMPONENTS.has(tagName) || (!!binding && LINK_PACKAGES.has(binding.specifier))
+}
+
+function getLinkText(node: ts.JsxOpeningLikeElement): string {
+  if (!ts.isJsxOpeningElement(node)) return ''
+  return node.parent.children
+    .filter(ts.isJsxText)
+    .map(child => child.text.trim())
+    .filter(Boolean)
+    .join(' ')
+}
+
+function getJsxAttributeExpression(node: ts.JsxOpeningLikeElement, names: Set<string>): ts.Expression | undefined {
+  const attribute = node.attributes.properties.find((property): property is ts.JsxAttribute =>
+    ts.isJsxAttribute(property) && names.has(property.name.getText()))
+  const value = attribute?.initializer
+  if (!value) return undefined
+  return ts.isStringLiteral(value) ? value : ts.isJsxExpression(value) ? value.expression : undefined
+}
+
+// Absolute URLs, protocol-relative URLs and mailto:/tel: links leave the app's route graph;
+// anchors and query-only links stay on the current page
+function isExternalTarget(target: string): boolean {
+  return /^([a-z][a-z\d+.-]*:|\/\/|#|\?)/i.test(target)
+}
+
+function isRedirectElement(node: ts.Node): boolean {
+  const element = ts.isJsxElement(node) ? node.openingElement : node
+  return (ts.isJsxSelfClosingElement(element) || ts.isJsxOpeningElement(element)) && REDIRECT_COMPONENTS.has(getJsxTagName(element))
+}
+
+// Components that render nothing but a redirect: `return <Navigate to="/home" />` or a top-level
+// `redirect('/login')` in a server component
+export function isRedirectComponent(node: ts.Node): boolean {
+  if (!ts.isFunctionDeclaration(node) && !ts.isArrowFunction(node) && !ts.isFunctionExpression(node)) return false
+  if (!node.body) return false
+  if (!ts.isBlock(node.body)) return isRedirectElement(unwrapExpression(node.body))
+  const last = node.body.statements[node.body.statements.length - 1]
+  if (!last) return false
+  if (ts.isReturnStatement(last) || ts.isThrowStatement(last) || ts.isExpressionStatement(last)) {
+    const expression = last.expression && unwrapExpression(last.expression)
+    return !!expression && (isRedirectElement(expression) || isRedirectFunctionCall(expression))
+  }
+  return false
+}
+
+export function extractNavigations(module: ParsedModule, graph: ModuleGraph): NavigationCall[] {
+  const { sourceFile } = module
+  const navigators = collectNavigators(sourceFile)
+  const navigations: NavigationCall[] = []
+
+  const add = (node: ts.Node, expression: ts.Expression, kind: NavigationKind) => {
+    const target = resolvePathExpression(graph, module, expression)
+    if (target !== undefined && isExternalTarget(target)) return
+    navigations.push({ ...kind, target, expression: expression.getText(sourceFile), location: getSourceLocation(node, module.filePath) })
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const tagName = getJsxTagName(node)
+      if (isLinkComponent(module, tagName)) {
+        const expression = getJsxAttributeExpression(node, LINK_ATTRIBUTES)
+        const trigger = `${getLinkText(node) || 'Link'} click`
+        const guard = guardOf(node)
+        if (expression) add(node, expression, guard.condition ? { type: 'conditional', trigger, ...guard } : { type: 'navigation', trigger })
+      } else if (REDIRECT_COMPONENTS.has(tagName)) {
+        // <Navigate to="/login" replace /> redirects as soon as it renders
+        const expression = getJsxAttributeExpression(node, REDIRECT_ATTRIBUTES)
+        if (expression) add(node, expression, { type: 'redirect', trigger: `<${tagName}> on render`, ...guardOf(node) })
+      }
+    }
+
+    if (ts.isCallExpression(node)) {
+      const [argument] = node.arguments
+      const method = getNavigationMethod(node, navigators)
+      if (argument && method) {
+        const target = unwrapExpression(argument)
+        // navigate(-1) and navigate(1) move through history rather than to a route
+        const isHistoryStep = ts.isNumericLiteral(target) || ts.isPrefixUnaryExpression(target)
+        if (!isHistoryStep) add(node, argument, classifyCall(node, method === 'replace' || hasReplaceOption(node)))
+      } else if (argument && isLocationReplace(node)) {
+        add(node, argument, classifyCall(node, true))
+      } else if (argument && isRedirectFunctionCall(node)) {
+        add(node, argument, classifyRedirectFunction(node))
+      }
+    }
+
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return navigations
+}
@@ -0,0 +1,171 @@
+import { RouteInfo } from '@/types/analysis'
+import { extractRouteParams } from '@/lib/route-config'
+
+export type AppRouterFileKind = 'page' | 'layout' | 'template' | 'loading' | 'error' | 'not-found' | 'default'
+
+export interface AppRouterEntry {
+  filePath: string
+  kind: AppRouterFileKind
+  appRoot: string // e.g. 'app' or 'src/app'
+  directory: string
+  routePath: string // URL with route groups and slots stripped
+  groups: string[]
+  slot?: string // Parallel route slot, '@modal' -> 'modal'
+  isIntercepting: boolean
+}
+
+const APP_ROUTER_FILE = /^((?:.*\/)?app)\/(?:(.*)\/)?(page|layout|template|loading|error|not-found|default)\.(tsx|jsx|ts|js)$/
+const BOUNDARY_KINDS: AppRouterFileKind[] = ['loading', 'error', 'not-found']
+
+// [id] -> :id, [...slug] -> :slug+, [[...slug]] -> :slug*
+export function convertDynamicSegment(segment: string): string {
+  return segment
+    .replace(/^\[\[\.\.\.([^\]]+)\]\]$/, ':$1*')
+    .replace(/^\[\.\.\.([^\]]+)\]$/, ':$1+')
+    .replace(/\[([^\]]+)\]/g, ':$1')
+}
+
+export function parseAppRouterFile(filePath: string): AppRouterEntry | null {
+  const match = filePath.match(APP_ROUTER_FILE)
+  if (!match) return null
+
+  const [, appRoot, relativeDir = '', kind] = match
+  const groups: string[] = []
+  const urlSegments: string[] = []
+  let slot: string | undefined
+  let isIntercepting = false
+
+  for (const rawSegment of relativeDir.split('/').filter(Boolean)) {
+    let segment = rawSegment
+
+    // Route groups like (marketing) never appear in the URL
+    if (/^\((?!\.)[^)]+\)$/.test(segment)) {
+      groups.push(segment.slice(1, -1))
+      continue
+    }
+    if (segment.startsWith('@')) {
+      slot = segment.slice(1)
+      continue
+    }
+    if (segment.startsWith('_')) return null // Private folders are opted out of routing
+
+    // Intercepting routes: (.) same level, (..) one level up, (...) app root
+    const intercept = segment.match(/^((?:\(\.{1,3}\))+)(.*)$/)
+    if (intercept) {
+      isIntercepting = true
+      const markers = intercept[1]
+      if (markers.includes('(...)')) {
+        urlSegments.length = 0
+      } else {
+        const levelsUp = (markers.match(/\(\.\.\)/g) ?? []).length
+        urlSegments.splice(Math.max(0, urlSegments.length - levelsUp))
+      }
+      segment = intercept[2]
+      if (!segment) continue
+    }
+
+    urlSegments.push(convertDynamicSegment(segment))
+  }
+
+  return {
+    filePath,
+    kind: kind as AppRouterFileKind,
+    appRoot,
+    directory: relativeDir ? `${appRoot}/${relativeDir}` : appRoot,
+    routePath: `/${urlSegments.join('/')}`,
+    groups,
+    slot: slot === 'children' ? undefined : slot,
+    isIntercepting
+  }
+}
+
+export function findAppRouterRoots(filePaths: Iterable<string>): Set<string> {
+  const roots = new Set<string>()
+  for (const filePath of filePaths) {
+    const entry = parseAppRouterFile(filePath)
+    if (entry && (entry.kind === 'page' || entry.kind === 'layout')) roots.add(entry.appRoot)
+  }
+  return roots
+}
+
+export function isGenericComponentName(name: string): boolean {
+  return /^(Page|Layout|Template|Default|Component)$/.test(name)
+}
+
+// '/products/:id' -> 'ProductsDetail', used when a page is exported as `Page`
+export function routeDisplayName(routePath: string, isLayout = false): string {
+  const segments = routePath.split('/').filter(Boolean)
+  const staticSegments = segments.filter(segment => !segment.startsWith(':'))
+  const last = staticSegments.pop()
+  const base = last
+    ? last.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('')
+    : isLayout ? 'Root' : 'Home'
+  const isDynamic = segments.length > 0 && segments[segments.length - 1].startsWith(':')
+  return `${base}${isDynamic && !isLayout ? 'Detail' : ''}${isLayout ? 'Layout' : ''}`
+}
+
+export function appRouterDisplayName(entry: AppRouterEntry): string {
+  const isLayout = entry.kind !== 'page'
+  const lastFolder = entry.directory.split('/').pop() ?? ''
+  const group = lastFolder.match(/^\((?!\.)([^)]+)\)$/)?.[1]
+  if (isLayout && group) return routeDisplayName(`/${group}`, true)
+  return routeDisplayName(entry.routePath, isLayout)
+}
+
+function isWithin(directory: string, ancestor: string): boolean {
+  return directory === ancestor || directory.startsWith(`${ancestor}/`)
+}
+
+export function buildAppRouterRoutes(filePaths: Iterable<string>, resolveComponent: (filePath: string) => string | undefined): RouteInfo[] {
+  const entries = [...filePaths].map(parseAppRouterFile).filter((entry): entry is AppRouterEntry => entry !== null)
+  const layouts = entries.filter(entry => entry.kind === 'layout' || entry.kind === 'template')
+  const pages = entries.filter(entry => entry.kind === 'page')
+  const routeByFile = new Map<string, RouteInfo>()
+  const roots: RouteInfo[] = []
+
+  const boundariesFor = (directory: string) => entries
+    .filter(entry => entry.directory === directory && BOUNDARY_KINDS.includes(entry.kind))
+    .map(entry => entry.kind)
+
+  const findParentLayout = (entry: AppRouterEntry): AppRouterEntry | undefined => layouts
+    .filter(layout => layout !== entry && layout.appRoot === entry.appRoot && isWithin(entry.directory, layout.directory))
+    // A template in the same folder renders inside that folder's layout
+    .filter(layout => entry.kind === 'page' || layout.directory !== entry.directory || (entry.kind === 'template' && layout.kind === 'layout'))
+    .sort((a, b) => b.directory.length - a.directory.length || (a.kind === 'template' ? -1 : 1))[0]
+
+  for (const entry of [...layouts, ...pages]) {
+    const isLayout = entry.kind !== 'page'
+    const route: RouteInfo = {
+      path: entry.routePath,
+      component: resolveComponent(entry.filePath) ?? appRouterDisplayName(entry),
+      filePath: entry.filePath
+    }
+    if (isLayout) route.isLayout = true
+    const params = extractRouteParams(entry.routePath)
+    if (params.length > 0) route.params = params
+    if (entry.slot) route.slot = entry.slot
+    if (entry.isIntercepting) route.isIntercepting = true
+
+    // loading/error boundaries belong to the layout of their folder, or to the page if there is none
+    const ownsBoundaries = isLayout
+      ? entry.kind === 'layout' || !layouts.some(layout => layout.kind === 'layout' && layout.directory === entry.directory)
+      : !layouts.some(layout => layout.directory === entry.directory)
+    const boundaries = ownsBoundaries ? boundariesFor(entry.directory) : []
+    if (boundaries.length > 0) route.boundaries = boundaries as RouteInfo['boundaries']
+
+    routeByFile.set(entry.filePath, route)
+  }
+
+  for (const entry of [...layouts, ...pages]) {
+    const route = routeByFile.get(entry.filePath)!
+    const parent = findParentLayout(entry)
+    if (parent) {
+      const parentRoute = routeByFile.get(parent.filePath)!
+      parentRoute.children = [...(parentRoute.children ?? []), route]
+    } else {
+      roots.push(route)
+    }
+  }
+
+  return roots
+}
@@ -0,0 +1,70 @@
+import { PageFlow, PageIssue } from '@/types/analysis'
+
+export const PAGE_ISSUES: PageIssue[] = ['unreachable', 'orphan', 'dead-end']
+
+export const PAGE_ISSUE_LABELS: Record<PageIssue, string> = {
+  unreachable: 'Unreachable',
+  orphan: 'Orphan',
+  'dead-end': 'Dead end'
+}
+
+export const PAGE_ISSUE_DESCRIPTIONS: Record<PageIssue, string> = {
+  unreachable: 'No chain of links leads here from an entry page',
+  orphan: 'No other page links here; only reachable by typing the URL',
+  'dead-end': 'No outbound links, including from its layouts'
+}
+
+// The home route; projects without one start from their shallowest routes
+function findEntryPages(pages: PageFlow[]): PageFlow[] {
+  const routable = pages.filter(page => page.type !== 'layout')
+  const home = routable.filter(page => page.path === '/')
+  if (home.length > 0 || routable.length === 0) return home
+  const depth = (page: PageFlow) => page.path.split('/').filter(Boolean).length
+  const shallowest = Math.min(...routable.map(depth))
+  return routable.filter(page => depth(page) === shallowest)
+}
+
+// Layouts render around their pages, so a page also offers its layouts' links
+function withLayouts(page: PageFlow, byId: Map<string, PageFlow>): PageFlow[] {
+  const chain: PageFlow[] = []
+  for (let current: PageFlow | undefined = page; current && !chain.includes(current); current = current.parentId ? byId.get(current.parentId) : undefined) {
+    chain.push(current)
+  }
+  return chain
+}
+
+// Flags pages that are unreachable from the entry pages, have no inbound links (orphans) or no
+// outbound ones (dead ends). Layouts are containers rather than destinations and are never flagged.
+export function assignPageIssues(pages: PageFlow[]): void {
+  const byId = new Map(pages.map(page => [page.id, page]))
+  const entryPages = findEntryPages(pages)
+
+  const reachable = new Set(entryPages.map(page => page.id))
+  const queue = [...entryPages]
+  while (queue.length > 0) {
+    const page = queue.shift()!
+    for (const source of withLayouts(page, byId)) {
+      for (const connection of source.connections) {
+        const target = byId.get(connection.targetPageId)
+        if (target && !reachable.has(target.id)) {
+          reachable.add(target.id)
+          queue.push(target)
+        }
+      }
+    }
+  }
+
+  const linkedTo = new Set(pages.flatMap(page =>
+    page.connections.filter(connection => connection.targetPageId !== page.id).map(connection => connection.targetPageId)))
+
+  for (const page of pages) {
+    delete page.issues
+    if (page.type === 'layout') continue
+    const issues: PageIssue[] = []
+    const isEntry = entryPages.includes(page)
+    if (!isEntry && !reachable.has(page.id)) issues.push('unreachable')
+    if (!isEntry && !linkedTo.has(page.id)) issues.push('orphan')
+    if (withLayouts(page, byId).every(source => source.connections.length === 0)) issues.push('dead-end')
+    if (issues.length > 0) page.issues = issues
+  }
+}
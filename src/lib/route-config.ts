@@ -0,0 +1,378 @@
+import ts from 'typescript'
+import { RouteInfo, RouteRedirect } from '@/types/analysis'
+import { findComponents, getJsxTagName, getSourceLocation, unwrapComponentExpression } from '@/lib/ast-analyzer'
+import { collectImports, createFileIndex, FileIndex, getDynamicImportSpecifier, ImportBinding, resolveModulePath } from '@/lib/module-resolver'
+
+export interface ParsedModule {
+  filePath: string
+  sourceFile: ts.SourceFile
+  imports: Map<string, ImportBinding>
+}
+
+const ROUTER_FACTORIES = new Set(['createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'useRoutes', 'createRoutesFromElements'])
+const ROUTE_CONTAINERS = new Set(['Routes', 'Switch'])
+const GUARD_PATTERN = /protect|private|require|auth|guard/i
+// Wrappers that render their children unchanged
+const TRANSPARENT_WRAPPERS = new Set(['Suspense', 'React.Suspense', 'ErrorBoundary', 'Fragment', 'React.Fragment'])
+// Route elements that send the visitor elsewhere instead of rendering a page
+const REDIRECT_ELEMENTS = new Set(['Navigate', 'Redirect'])
+
+interface ResolvedElement {
+  component: string
+  filePath: string
+  guards: string[]
+}
+
+export function createParsedModule(filePath: string, sourceFile: ts.SourceFile): ParsedModule {
+  return { filePath, sourceFile, imports: collectImports(sourceFile) }
+}
+
+export function extractRouteParams(path: string): string[] {
+  const params = [...path.matchAll(/:(\w+)/g)].map(match => match[1])
+  if (/(^|\/)\*$/.test(path)) params.push('*')
+  return params
+}
+
+export function joinRoutePaths(parent: string, child: string): string {
+  if (child.startsWith('/')) return child
+  const joined = `${parent.replace(/\/$/, '')}/${child}`
+  return joined.length > 1 ? joined.replace(/\/$/, '') : '/'
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteralLike(name)) return name.text
+  return undefined
+}
+
+// Every parsed module of the project, for resolving imports between them
+export interface ModuleGraph {
+  modules: Map<string, ParsedModule>
+  knownFiles: FileIndex
+}
+
+// Works out route `path` and redirect `to` expressions. Callers pass navigation-targets' resolvePathExpression,
+// the one navigation targets go through, so `ROUTES.settings` comes out the same on both sides
+export type PathResolver = (graph: ModuleGraph, module: ParsedModule, expression: ts.Expression) => string | undefined
+
+interface RouteContext extends ModuleGraph {
+  visitedArrays: Set<ts.Node>
+  resolvePath: PathResolver
+}
+
+export function createModuleGraph(parsedModules: ParsedModule[]): ModuleGraph {
+  const modules = new Map(parsedModules.map(module => [module.filePath, module]))
+  return { modules, knownFiles: createFileIndex(modules.keys()) }
+}
+
+// A `path` the resolver cannot work out keeps its source text as a segment of its own, e.g. '/{paths.x}',
+// so the route neither inherits its parent's path nor matches any navigation target
+function resolveRoutePath(context: RouteContext, module: ParsedModule, expression: ts.Expression): { path: string; unresolvedPath?: string } {
+  const path = context.resolvePath(context, module, expression)
+  if (path !== undefined) return { path }
+  const unresolvedPath = expression.getText().replace(/\s+/g, ' ')
+  return { path: `{${unresolvedPath}}`, unresolvedPath }
+}
+
+export function extractRouteConfig(graph: ModuleGraph, resolvePath: PathResolver): RouteInfo[] {
+  const context: RouteContext = { ...graph, visitedArrays: new Set(), resolvePath }
+  const roots: RouteInfo[] = []
+
+  for (const module of context.modules.values()) {
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node)) {
+        const callee = node.expression
+        const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : ''
+        if (ROUTER_FACTORIES.has(name) && node.arguments.length > 0) {
+          roots.push(...parseRouteCollection(context, module, node.arguments[0], '/', []))
+          return
+        }
+      }
+      if (ts.isJsxElement(node) && ROUTE_CONTAINERS.has(getJsxTagName(node.openingElement))) {
+        roots.push(...parseJsxRoutes(context, module, node.children, '/', []))
+        return
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(module.sourceFile)
+  }
+
+  // RouteObject[] arrays that are exported but never handed to a router in the scanned files
+  for (const module of context.modules.values()) {
+    for (const statement of module.sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        if (declaration.type && /RouteObject\[\]|Array<RouteObject>/.test(declaration.type.getText()) && declaration.initializer) {
+          roots.push(...parseRouteCollection(context, module, declaration.initializer, '/', []))
+        }
+      }
+    }
+  }
+
+  return roots
+}
+
+function parseRouteCollection(context: RouteContext, module: ParsedModule, expression: ts.Expression, parentPath: string, parentGuards: string[]): RouteInfo[] {
+  const target = unwrapComponentExpression(expression)
+
+  if (ts.isArrayLiteralExpression(target)) {
+    if (context.visitedArrays.has(target)) return []
+    context.visitedArrays.add(target)
+    return target.elements.flatMap(element => {
+      if (ts.isSpreadElement(element)) return parseRouteCollection(context, module, element.expression, parentPath, parentGuards)
+      if (ts.isObjectLiteralExpression(element)) return parseRouteObject(context, module, element, parentPath, parentGuards)
+      return parseRouteCollection(context, module, element, parentPath, parentGuards)
+    })
+  }
+
+  if (ts.isJsxElement(target) || ts.isJsxFragment(target)) {
+    return parseJsxRoutes(context, module, ts.isJsxElement(target) ? [target] : target.children, parentPath, parentGuards)
+  }
+
+  if (ts.isJsxSelfClosingElement(target)) {
+    return parseJsxRoutes(context, module, [target], parentPath, parentGuards)
+  }
+
+  if (ts.isCallExpression(target)) {
+    // createRoutesFromElements(<Route />)
+    return target.arguments.flatMap(argument => parseRouteCollection(context, module, argument, parentPath, parentGuards))
+  }
+
+  if (ts.isIdentifier(target)) {
+    const resolved = resolveVariable(context, module, target.text)
+    if (resolved) return parseRouteCollection(context, resolved.module, resolved.initializer, parentPath, parentGuards)
+  }
+
+  return []
+}
+
+function parseRouteObject(context: RouteContext, module: ParsedModule, node: ts.ObjectLiteralExpression, parentPath: string, parentGuards: string[]): RouteInfo[] {
+  let pathExpression: ts.Expression | undefined
+  let isIndex = false
+  let element: ResolvedElement | undefined
+  let redirect: RouteRedirect | undefined
+  let childrenExpression: ts.Expression | undefined
+
+  for (const property of node.properties) {
+    if (ts.isShorthandPropertyAssignment(property)) {
+      if (property.name.text === 'Component') element = resolveComponent(context, module, 'Component')
+      continue
+    }
+    if (!ts.isPropertyAssignment(property)) continue
+    const key = getPropertyName(property.name)
+    const value = property.initializer
+
+    if (key === 'path') pathExpression = value
+    else if (key === 'index') isIndex = value.kind === ts.SyntaxKind.TrueKeyword
+    else if (key === 'element') {
+      element = resolveElement(context, module, value)
+      redirect = resolveRedirect(context, module, value)
+    }
+    else if (key === 'Component' || key === 'component') element = ts.isIdentifier(value) ? resolveComponent(context, module, value.text) : element
+    else if (key === 'lazy' && !element) element = resolveLazy(context, module, value)
+    else if (key === 'children') childrenExpression = value
+  }
+
+  const { path, unresolvedPath } = pathExpression ? resolveRoutePath(context, module, pathExpression) : {}
+  return buildRoute(module, { node, path, unresolvedPath, isIndex, element, redirect, parentPath, parentGuards }, scope => {
+    if (!childrenExpression) return []
+    return parseRouteCollection(context, module, childrenExpression, scope.path, scope.guards)
+  })
+}
+
+function parseJsxRoutes(context: RouteContext, module: ParsedModule, nodes: readonly ts.Node[] | ts.NodeArray<ts.JsxChild>, parentPath: string, parentGuards: string[]): RouteInfo[] {
+  const routes: RouteInfo[] = []
+
+  for (const node of nodes) {
+    if (ts.isJsxFragment(node)) {
+      routes.push(...parseJsxRoutes(context, module, node.children, parentPath, parentGuards))
+      continue
+    }
+    if (!ts.isJsxElement(node) && !ts.isJsxSelfClosingElement(node)) continue
+
+    const opening = ts.isJsxElement(node) ? node.openingElement : node
+    const tagName = getJsxTagName(opening)
+    if (tagName !== 'Route' && !tagName.endsWith('.Route')) {
+      // <Route> nested inside custom wrappers such as <Suspense>
+      if (ts.isJsxElement(node)) routes.push(...parseJsxRoutes(context, module, node.children, parentPath, parentGuards))
+      continue
+    }
+
+    let pathExpression: ts.Expression | undefined
+    let isIndex = false
+    let element: ResolvedElement | undefined
+    let redirect: RouteRedirect | undefined
+
+    for (const attribute of opening.attributes.properties) {
+      if (!ts.isJsxAttribute(attribute)) continue
+      const key = attribute.name.getText()
+      const initializer = attribute.initializer
+      const expression = initializer && ts.isJsxExpression(initializer) ? initializer.expression : undefined
+
+      if (key === 'path') {
+        pathExpression = initializer && ts.isStringLiteral(initializer) ? initializer : expression
+      } else if (key === 'index') {
+        isIndex = !initializer || expression?.kind === ts.SyntaxKind.TrueKeyword
+      } else if ((key === 'element' || key === 'render') && expression) {
+        element = resolveElement(context, module, expression)
+        redirect = resolveRedirect(context, module, expression)
+      } else if ((key === 'component' || key === 'Component') && expression && ts.isIdentifier(expression)) {
+        element = resolveComponent(context, module, expression.text)
+      }
+    }
+
+    const { path, unresolvedPath } = pathExpression ? resolveRoutePath(context, module, pathExpression) : {}
+    routes.push(...buildRoute(module, { node, path, unresolvedPath, isIndex, element, redirect, parentPath, parentGuards }, scope => {
+      if (!ts.isJsxElement(node)) return []
+      return parseJsxRoutes(context, module, node.children, scope.path, scope.guards)
+    }))
+  }
+
+  return routes
+}
+
+function buildRoute(
+  module: ParsedModule,
+  route: { node: ts.Node; path?: string; unresolvedPath?: string; isIndex: boolean; element?: ResolvedElement; redirect?: RouteRedirect; parentPath: string; parentGuards: string[] },
+  parseChildren: (scope: { path: string; guards: string[] }) => RouteInfo[]
+): RouteInfo[] {
+  const fullPath = route.path !== undefined ? joinRoutePaths(route.parentPath, route.path) : route.parentPath
+  const guards = [...route.parentGuards, ...(route.element?.guards ?? [])]
+
+  // Pathless routes whose element is a guard protect every child route
+  const isGuardRoute = !!route.element && route.path === undefined && !route.isIndex && GUARD_PATTERN.test(route.element.component)
+  const childGuards = isGuardRoute ? [...guards, route.element!.component] : guards
+  const children = parseChildren({ path: fullPath, guards: childGuards })
+
+  const info: RouteInfo = {
+    path: fullPath,
+    component: route.element?.component ?? 'Outlet',
+    filePath: route.element?.filePath ?? module.filePath,
+    location: getSourceLocation(route.node, module.filePath)
+  }
+  if (children.length > 0) {
+    info.children = children
+    info.isLayout = true
+  }
+  if (route.isIndex) info.isIndex = true
+  if (route.unresolvedPath !== undefined) info.unresolvedPath = route.unresolvedPath
+  if (route.redirect) info.redirect = route.redirect
+  if (guards.length > 0) info.guards = [...new Set(guards)]
+  const params = extractRouteParams(fullPath)
+  if (params.length > 0) info.params = params
+
+  return [info]
+}
+
+// element={<ProtectedRoute><Suspense><Dashboard /></Suspense></ProtectedRoute>}
+function resolveElement(context: RouteContext, module: ParsedModule, expression: ts.Expression): ResolvedElement | undefined {
+  let current: ts.Node = unwrapComponentExpression(expression)
+  const guards: string[] = []
+
+  while (true) {
+    if (ts.isJsxSelfClosingElement(current)) {
+      const resolved = resolveComponent(context, module, getJsxTagName(current))
+      return resolved && { ...resolved, guards }
+    }
+    if (!ts.isJsxElement(current)) return undefined
+
+    const tagName = getJsxTagName(current.openingElement)
+    const childElement = current.children.find(child => ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child))
+    if (!childElement) {
+      const resolved = resolveComponent(context, module, tagName)
+      return resolved && { ...resolved, guards }
+    }
+    // Layout wrappers and Suspense/ErrorBoundary render the page, so the innermost component stays the route component
+    if (GUARD_PATTERN.test(tagName) && !TRANSPARENT_WRAPPERS.has(tagName)) guards.push(tagName)
+    current = childElement
+  }
+}
+
+// element={<Navigate to="/new" replace />}: the route only forwards to another path
+function resolveRedirect(context: RouteContext, module: ParsedModule, expression: ts.Expression): RouteRedirect | undefined {
+  const element = unwrapComponentExpression(expression)
+  const opening = ts.isJsxElement(element) ? element.openingElement : element
+  if (!ts.isJsxSelfClosingElement(opening) && !ts.isJsxOpeningElement(opening)) return undefined
+
+  const tagName = getJsxTagName(opening)
+  if (!REDIRECT_ELEMENTS.has(tagName)) return undefined
+  // A Navigate component defined in the project is just another page
+  const binding = module.imports.get(tagName)
+  if (binding && resolveModulePath(module.filePath, binding.specifier, context.knownFiles)) return undefined
+
+  const to = opening.attributes.properties.find((property): property is ts.JsxAttribute =>
+    ts.isJsxAttribute(property) && property.name.getText() === 'to')?.initializer
+  const toExpression = to && (ts.isStringLiteral(to) ? to : ts.isJsxExpression(to) ? to.expression : undefined)
+  if (!toExpression) return undefined
+
+  return {
+    target: context.resolvePath(context, module, toExpression),
+    expression: toExpression.getText(),
+    location: getSourceLocation(opening, module.filePath)
+  }
+}
+
+function resolveLazy(context: RouteContext, module: ParsedModule, expression: ts.Expression): ResolvedElement | undefined {
+  const specifier = getDynamicImportSpecifier(expression)
+  if (!specifier) return undefined
+  const filePath = resolveModulePath(module.filePath, specifier, context.knownFiles)
+  if (!filePath) return undefined
+  return { component: findExportedComponent(context, filePath, 'default') ?? 'default', filePath, guards: [] }
+}
+
+function resolveComponent(context: RouteContext, module: ParsedModule, localName: string): ResolvedElement | undefined {
+  const binding = module.imports.get(localName.split('.')[0])
+  if (!binding) {
+    return { component: localName, filePath: module.filePath, guards: [] }
+  }
+
+  const filePath = resolveModulePath(module.filePath, binding.specifier, context.knownFiles)
+  if (!filePath) {
+    // Package or unscanned import: keep the name so the route is still visible
+    return { component: localName, filePath: module.filePath, guards: [] }
+  }
+
+  const importedName = binding.importedName === '*' ? localName.split('.').pop()! : binding.importedName
+  return { component: findExportedComponent(context, filePath, importedName) ?? localName, filePath, guards: [] }
+}
+
+function findExportedComponent(context: RouteContext, filePath: string, importedName: string): string | undefined {
+  const target = context.modules.get(filePath)
+  if (!target) return undefined
+  const components = findComponents(target.sourceFile)
+  const match = importedName === 'default'
+    ? components.find(component => component.exportKind === 'default')
+    : components.find(component => component.name === importedName && component.exportKind !== 'none')
+  return match?.name
+}
+
+// Follows a name to its `const` initializer, through named and default imports. `visited` holds
+// `filePath:name` pairs so circular imports between barrels end instead of recursing forever.
+export function resolveVariable(context: ModuleGraph, module: ParsedModule, name: string, visited = new Set<string>()): { module: ParsedModule; initializer: ts.Expression } | undefined {
+  const key = `${module.filePath}:${name}`
+  if (visited.has(key)) return undefined
+  visited.add(key)
+
+  for (const statement of module.sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue
+    for (const declaration of statement.declarationList.declarations) {
+      if (ts.isIdentifier(declaration.name) && declaration.name.text === name && declaration.initializer) {
+        return { module, initializer: declaration.initializer }
+      }
+    }
+  }
+
+  const binding = module.imports.get(name)
+  if (!binding) return undefined
+  const filePath = resolveModulePath(module.filePath, binding.specifier, context.knownFiles)
+  const target = filePath ? context.modules.get(filePath) : undefined
+  if (!target) return undefined
+
+  if (binding.importedName === 'default') {
+    const exportAssignment = target.sourceFile.statements.find(ts.isExportAssignment)
+    if (!exportAssignment) return undefined
+    return ts.isIdentifier(exportAssignment.expression)
+      ? resolveVariable(context, target, exportAssignment.expression.text, visited)
+      : { module: target, initializer: exportAssignment.expression }
+  }
+  return resolveVariable(context, target, binding.importedName, visited)
+}
@@ -0,0 +1,96 @@
+import { PageFlow, RouteInfo } from '@/types/analysis'
+
+type SegmentKind = 'static' | 'param' | 'splat'
+
+interface RouteSegment {
+  kind: SegmentKind
+  value: string
+  optional: boolean // `:lang?`, `edit?`, `:slug*` and `*` may match nothing
+}
+
+// Same ordering as React Router's ranking: a static segment beats a param, which beats a splat
+const SEGMENT_SCORE: Record<SegmentKind, number> = { static: 10, param: 4, splat: 1 }
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean)
+}
+
+function isPlaceholder(segment: string): boolean {
+  return segment.startsWith(':')
+}
+
+// '*' and ':slug*' (zero or more), ':slug+' (one or more), ':id?' and 'edit?' (optional)
+function parseSegment(segment: string): RouteSegment {
+  if (segment === '*' || /^:\w+\*$/.test(segment)) return { kind: 'splat', value: segment, optional: true }
+  if (/^:\w+\+$/.test(segment)) return { kind: 'splat', value: segment, optional: false }
+  const optional = segment.endsWith('?')
+  const value = optional ? segment.slice(0, -1) : segment
+  return { kind: isPlaceholder(value) ? 'param' : 'static', value, optional }
+}
+
+function stripQueryAndHash(target: string): string {
+  return target.replace(/[?#].*$/, '')
+}
+
+// Relative targets resolve against the linking page's route the way React Router's route-relative
+// links do: 'edit' appends a segment, '..' drops one
+export function resolveTargetPath(target: string, fromPath = '/'): string {
+  const path = stripQueryAndHash(target)
+  if (path.startsWith('/')) return `/${splitPath(path).join('/')}`
+  const segments = splitPath(fromPath)
+  for (const segment of splitPath(path)) {
+    if (segment === '..') segments.pop()
+    else if (segment !== '.') segments.push(segment)
+  }
+  return `/${segments.join('/')}`
+}
+
+// Scores how specifically `routePath` matches `targetPath`, or returns null when it does not match.
+// Target placeholders (`/products/:id` from a template literal) stand for an unknown value, so they
+// only fill params and splats, never static segments.
+export function matchRoute(routePath: string, targetPath: string): number | null {
+  const route = splitPath(routePath).map(parseSegment)
+  const target = splitPath(stripQueryAndHash(targetPath))
+
+  const match = (routeIndex: number, targetIndex: number): number | null => {
+    if (routeIndex === route.length) return targetIndex === target.length ? 0 : null
+    const segment = route[routeIndex]
+    const candidates: (number | null)[] = []
+
+    if (segment.optional) candidates.push(match(routeIndex + 1, targetIndex))
+    if (segment.kind === 'splat') {
+      for (let end = targetIndex + 1; end <= target.length; end++) {
+        const rest = match(routeIndex + 1, end)
+        if (rest !== null) candidates.push(rest + SEGMENT_SCORE.splat)
+      }
+    } else if (targetIndex < target.length) {
+      const value = target[targetIndex]
+      // Static segments compare case-insensitively, as React Router does by default
+      const fits = segment.kind === 'param' || (!isPlaceholder(value) && value.toLowerCase() === segment.value.toLowerCase())
+      const rest = fits ? match(routeIndex + 1, targetIndex + 1) : null
+      if (rest !== null) candidates.push(rest + SEGMENT_SCORE[segment.kind])
+    }
+
+    const scores = candidates.filter((score): score is number => score !== null)
+    return scores.length > 0 ? Math.max(...scores) : null
+  }
+
+  return match(0, 0)
+}
+
+// The most specific page whose route matches the target; pages win over layouts sharing their path
+export function findPageByPath(pages: PageFlow[], target: string, fromPath?: string): PageFlow | undefined {
+  const targetPath = resolveTargetPath(target, fromPath)
+  let best: { page: PageFlow; score: number } | undefined
+  for (const page of pages) {
+    const score = matchRoute(page.path, targetPath)
+    if (score === null) continue
+    const ranked = score + (page.type === 'page' ? 0.5 : 0)
+    if (!best || ranked > best.score) best = { page, score: ranked }
+  }
+  return best?.page
+}
+
+export function flattenRoutes(routes: RouteInfo[]): RouteInfo[] {
+  return routes.flatMap(route => [route, ...flattenRoutes(route.children ?? [])])
+}
@@ -0,0 +1,72 @@
+import { AnalysisErrorCode, AnalysisOptions } from '@/types/analysis'
+import { isAnalyzableFile, isIgnoredPath, SourceProvider } from '@/lib/source-providers'
+import { createAnalysisError, toAnalysisError } from '@/lib/analysis-error'
+import { matchesAnyGlob, mayMatchBelow } from '@/lib/glob'
+import { mapWithConcurrency } from '@/lib/utils'
+import { ProgressReporter } from '@/lib/analysis-progress'
+
+export const DEFAULT_EXCLUDE_GLOBS = ['**/*.{test,spec,stories}.{ts,tsx,js,jsx}', '**/__tests__/**', '**/__mocks__/**']
+const DEFAULT_CONCURRENCY = 8
+// Read failures that would fail every remaining file too; they end the analysis instead of leaving gaps.
+// A token that expires or lacks scope part way through a private repository surfaces here.
+const FATAL_READ_ERRORS: AnalysisErrorCode[] = ['unauthorized', 'forbidden', 'rate-limited']
+
+export function shouldAnalyzeFile(filePath: string, options: AnalysisOptions = {}): boolean {
+  if (!isAnalyzableFile(filePath) || isIgnoredPath(filePath)) return false
+  if (options.include && options.include.length > 0 && !matchesAnyGlob(filePath, options.include)) return false
+  return !matchesAnyGlob(filePath, options.exclude ?? DEFAULT_EXCLUDE_GLOBS)
+}
+
+// Lists the provider's files and reads the ones the filters keep. Router configs live outside
+// page folders, so every source file is read once. After a cancel the files read so far are returned;
+// files that fail to read are counted and make the result partial.
+export async function readSourceFiles(provider: SourceProvider, options: AnalysisOptions, report: ProgressReporter): Promise<{ paths: string[], files: Map<string, string>, partial: boolean, failedFiles: number }> {
+  const { signal } = options
+  report()
+  
+  let paths: string[]
+  try {
+    paths = await provider.listFiles(signal, directory => !mayMatchBelow(directory, options.include, options.exclude ?? DEFAULT_EXCLUDE_GLOBS))
+  } catch (error) {
+    if (signal?.aborted) throw createAnalysisError('cancelled', 'Analysis cancelled before any files were read')
+    throw error
+  }
+  
+  const selectedPaths = paths.filter(filePath => shouldAnalyzeFile(filePath, options))
+  report({ phase: 'fetching', filesDiscovered: paths.length, filesToFetch: selectedPaths.length })
+  let failedFiles = 0
+  let lastError: unknown
+  let fatalError: unknown
+  const contents = await mapWithConcurrency(selectedPaths, options.concurrency ?? DEFAULT_CONCURRENCY, async filePath => {
+    if (signal?.aborted || fatalError) return ''
+    try {
+      const content = await provider.readFile(filePath, signal)
+      report(current => ({ filesFetched: current.filesFetched + 1 }))
+      return content
+    } catch (error) {
+      if (signal?.aborted) return ''
+      if (FATAL_READ_ERRORS.includes(toAnalysisError(error).code)) {
+        fatalError ??= error
+        return ''
+      }
+      console.warn(`Failed to read file ${filePath}:`, error)
+      failedFiles++
+      lastError = error
+      report(current => ({ filesFailed: current.filesFailed + 1 }))
+      return ''
+    }
+  })
+  if (fatalError) throw fatalError
+  
+  const files = new Map<string, string>()
+  selectedPaths.forEach((filePath, index) => {
+    if (contents[index]) files.set(filePath, contents[index])
+  })
+  
+  if (files.size === 0) {
+    if (signal?.aborted) throw createAnalysisError('cancelled', 'Analysis cancelled before any files were read')
+    // Nothing to analyze at all: report why rather than an empty graph
+    if (lastError) throw lastError
+  }
+  return { paths, files, partial: !!signal?.aborted || failedFiles > 0, failedFiles }
+}
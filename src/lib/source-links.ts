@@ -0,0 +1,56 @@
+import { FlowAnalysisResult, SourceLocation } from '@/types/analysis'
+
+// Folders and zips picked in the browser only expose their name, so the path on disk that
+// vscode:// links need is asked for once per project and remembered
+const LOCAL_ROOT_STORAGE_PREFIX = 'flowscope.localRoot.'
+
+function isAbsolutePath(path: string): boolean {
+  return path.startsWith('/') || /^[a-z]:[\\/]/i.test(path)
+}
+
+function localRootKey(result: FlowAnalysisResult): string {
+  return `${LOCAL_ROOT_STORAGE_PREFIX}${result.repoName}`
+}
+
+export function formatLocation(location: SourceLocation): string {
+  return `${location.filePath}:${location.startLine}:${location.startColumn}`
+}
+
+// Local sources other than CLI runs (which record the absolute directory) need a root from the user
+export function needsLocalRoot(result: FlowAnalysisResult): boolean {
+  return result.mode !== 'demo' && (result.sourceType ?? 'github') !== 'github' && !isAbsolutePath(result.repoUrl)
+}
+
+export function getLocalRoot(result: FlowAnalysisResult): string | undefined {
+  if (isAbsolutePath(result.repoUrl)) return result.repoUrl
+  try {
+    return globalThis.localStorage?.getItem(localRootKey(result)) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function saveLocalRoot(result: FlowAnalysisResult, root: string): void {
+  try {
+    if (root.trim()) globalThis.localStorage?.setItem(localRootKey(result), root.trim())
+    else globalThis.localStorage?.removeItem(localRootKey(result))
+  } catch {
+    // Storage disabled: the root only lasts for this view
+  }
+}
+
+// GitHub blob URL at the analyzed commit, or a vscode://file link for local sources
+export function getSourceUrl(result: FlowAnalysisResult, location: SourceLocation, localRoot?: string): string | undefined {
+  if (result.mode === 'demo') return undefined
+
+  if ((result.sourceType ?? 'github') === 'github') {
+    const ref = result.ref?.sha ?? result.branch ?? 'HEAD'
+    const path = location.filePath.split('/').map(encodeURIComponent).join('/')
+    const lines = location.endLine > location.startLine ? `#L${location.startLine}-L${location.endLine}` : `#L${location.startLine}`
+    return `${result.repoUrl.replace(/\/$/, '')}/blob/${encodeURIComponent(ref)}/${path}${lines}`
+  }
+
+  if (!localRoot) return undefined
+  const root = localRoot.replace(/\\/g, '/').replace(/\/$/, '')
+  return `vscode://file${root.startsWith('/') ? '' : '/'}${encodeURI(`${root}/${location.filePath}`)}:${location.startLine}:${location.startColumn}`
+}
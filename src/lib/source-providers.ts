@@ -0,0 +1,222 @@
+import { strFromU8, unzip } from 'fflate'
+import { SourceSnapshot, SourceType } from '@/types/analysis'
+
+// Where the analyzer reads files from. Paths are relative to the project root and use '/'.
+export interface SourceProvider {
+  type: SourceType
+  name: string
+  url: string
+  branch?: string
+  // Local providers read from memory or disk and may ignore the signal. Remote ones skip listing
+  // folders `skipDirectory` rejects, though other files may still be returned.
+  listFiles(signal?: AbortSignal, skipDirectory?: (path: string) => boolean): Promise<string[]>
+  readFile(path: string, signal?: AbortSignal): Promise<string>
+}
+
+export interface LocalFile {
+  path: string
+  file: File
+}
+
+// Minimal File System Access API surface, not yet part of TypeScript's DOM lib
+interface FileSystemHandleLike {
+  kind: 'file' | 'directory'
+  name: string
+}
+
+export interface DirectoryHandleLike extends FileSystemHandleLike {
+  kind: 'directory'
+  values(): AsyncIterable<FileSystemHandleLike>
+}
+
+interface FileHandleLike extends FileSystemHandleLike {
+  kind: 'file'
+  getFile(): Promise<File>
+}
+
+type DirectoryPicker = () => Promise<DirectoryHandleLike>
+
+// Folders that never contain application source
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.next', '.nuxt', '.turbo', '.vercel', '.cache', 'dist', 'build', 'out', 'coverage'])
+
+export function isIgnoredPath(path: string): boolean {
+  return path.split('/').some(segment => IGNORED_DIRECTORIES.has(segment))
+}
+
+export function isAnalyzableFile(filePath: string): boolean {
+  return /\.(tsx|jsx|ts|js)$/.test(filePath) && !filePath.endsWith('.d.ts')
+}
+
+// Archives and folder uploads usually wrap everything in a single top-level folder
+function stripCommonRoot(paths: string[]): { root: string; strip: (path: string) => string } {
+  const firstSegments = new Set(paths.map(path => path.split('/')[0]))
+  const [root] = firstSegments
+  if (firstSegments.size === 1 && root && paths.every(path => path.includes('/'))) {
+    return { root, strip: path => path.slice(root.length + 1) }
+  }
+  return { root: '', strip: path => path }
+}
+
+export function createFileListProvider(files: LocalFile[], name?: string): SourceProvider {
+  const { root, strip } = stripCommonRoot(files.map(entry => entry.path))
+  const byPath = new Map(files.map(entry => [strip(entry.path), entry.file]))
+  const folderName = name || root || 'local-project'
+
+  return {
+    type: 'directory',
+    name: folderName,
+    url: folderName,
+    async listFiles() {
+      return [...byPath.keys()].filter(path => !isIgnoredPath(path))
+    },
+    async readFile(path: string) {
+      const file = byPath.get(path)
+      if (!file) throw new Error(`File not found in folder: ${path}`)
+      return file.text()
+    }
+  }
+}
+
+// <input type="file" webkitdirectory> exposes the folder structure through webkitRelativePath
+export function createInputDirectoryProvider(fileList: FileList | File[]): SourceProvider {
+  const files = Array.from(fileList).map(file => ({ path: file.webkitRelativePath || file.name, file }))
+  return createFileListProvider(files)
+}
+
+export function createDirectoryHandleProvider(handle: DirectoryHandleLike): SourceProvider {
+  const fileHandles = new Map<string, FileHandleLike>()
+  let scanned: Promise<void> | null = null
+
+  async function walk(directory: DirectoryHandleLike, prefix: string): Promise<void> {
+    for await (const entry of directory.values()) {
+      const path = prefix ? `${prefix}/${entry.name}` : entry.name
+      if (entry.kind === 'directory') {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) await walk(entry as DirectoryHandleLike, path)
+      } else {
+        fileHandles.set(path, entry as FileHandleLike)
+      }
+    }
+  }
+
+  return {
+    type: 'directory',
+    name: handle.name,
+    url: handle.name,
+    async listFiles() {
+      scanned ??= walk(handle, '')
+      await scanned
+      return [...fileHandles.keys()]
+    },
+    async readFile(path: string) {
+      const fileHandle = fileHandles.get(path)
+      if (!fileHandle) throw new Error(`File not found in folder: ${path}`)
+      return (await fileHandle.getFile()).text()
+    }
+  }
+}
+
+// Serves a snapshot taken on the page; files the filters skipped were never read
+export function createSnapshotProvider(snapshot: SourceSnapshot): SourceProvider {
+  return {
+    type: snapshot.type,
+    name: snapshot.name,
+    url: snapshot.url,
+    branch: snapshot.branch,
+    async listFiles() {
+      return snapshot.paths
+    },
+    async readFile(path: string) {
+      const content = snapshot.files[path]
+      // A cancelled or partly failed snapshot simply lacks the rest; empty files are skipped by the analyzer
+      if (content === undefined && snapshot.partial) return ''
+      if (content === undefined) throw new Error(`File not in snapshot: ${path}`)
+      return content
+    }
+  }
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return typeof window !== 'undefined' && 'showDirectoryPicker' in window
+}
+
+// Resolves to null when the user dismisses the picker
+export async function pickDirectoryProvider(): Promise<SourceProvider | null> {
+  const picker = window as unknown as { showDirectoryPicker: DirectoryPicker }
+  try {
+    return createDirectoryHandleProvider(await picker.showDirectoryPicker())
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null
+    throw error
+  }
+}
+
+// Folders dropped onto the page arrive as FileSystemEntry trees
+export async function readDroppedItems(items: DataTransferItemList): Promise<LocalFile[]> {
+  const files: LocalFile[] = []
+
+  const readEntry = async (entry: FileSystemEntry, prefix: string): Promise<void> => {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+      files.push({ path, file })
+    } else if (entry.isDirectory && !IGNORED_DIRECTORIES.has(entry.name)) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader()
+      // readEntries returns results in batches until it yields an empty array
+      while (true) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+        if (batch.length === 0) break
+        for (const child of batch) await readEntry(child, path)
+      }
+    }
+  }
+
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+  for (const entry of entries) await readEntry(entry, '')
+
+  return files
+}
+
+function unzipEntries(buffer: Uint8Array, filter: (path: string) => boolean): Promise<Record<string, Uint8Array>> {
+  return new Promise((resolve, reject) => {
+    unzip(buffer, { filter: file => filter(file.name) }, (error, data) => (error ? reject(new Error(`Could not read zip archive: ${error.message}`)) : resolve(data)))
+  })
+}
+
+export async function createZipProvider(archive: File): Promise<SourceProvider> {
+  const buffer = new Uint8Array(await archive.arrayBuffer())
+
+  // A first pass only collects names (the filter declines every entry, so nothing is inflated);
+  // the second inflates just the source files outside ignored folders
+  const names: string[] = []
+  await unzipEntries(buffer, path => {
+    names.push(path)
+    return false
+  })
+
+  // Directory entries end with '/' and carry no content
+  const filePaths = names.filter(path => !path.endsWith('/') && !path.startsWith('__MACOSX/'))
+  const { strip } = stripCommonRoot(filePaths)
+  const listedPaths = filePaths.map(strip).filter(path => !isIgnoredPath(path))
+  const entries = await unzipEntries(buffer, path => {
+    const stripped = strip(path)
+    return !path.endsWith('/') && !path.startsWith('__MACOSX/') && !isIgnoredPath(stripped) && isAnalyzableFile(stripped)
+  })
+  const byPath = new Map(Object.entries(entries).map(([path, data]) => [strip(path), data]))
+  const name = archive.name.replace(/\.zip$/i, '')
+
+  return {
+    type: 'zip',
+    name,
+    url: archive.name,
+    async listFiles() {
+      return listedPaths
+    },
+    async readFile(path: string) {
+      const data = byPath.get(path)
+      if (!data) throw new Error(`File not found in archive: ${path}`)
+      return strFromU8(data)
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import ts from 'typescript'
+import { getScriptKind } from '@/lib/ast-analyzer'
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'type' | 'plain'
+
+export interface HighlightToken {
+  text: string
+  kind: TokenKind
+}
+
+function classifyToken(kind: ts.SyntaxKind, text: string): TokenKind {
+  if (kind >= ts.SyntaxKind.FirstKeyword && kind <= ts.SyntaxKind.LastKeyword) return 'keyword'
+  switch (kind) {
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+    case ts.SyntaxKind.TemplateHead:
+    case ts.SyntaxKind.TemplateMiddle:
+    case ts.SyntaxKind.TemplateTail:
+      return 'string'
+    case ts.SyntaxKind.SingleLineCommentTrivia:
+    case ts.SyntaxKind.MultiLineCommentTrivia:
+      return 'comment'
+    case ts.SyntaxKind.NumericLiteral:
+    case ts.SyntaxKind.BigIntLiteral:
+      return 'number'
+    case ts.SyntaxKind.Identifier:
+      // Components and types are capitalized by convention
+      return /^[A-Z]/.test(text) ? 'type' : 'plain'
+    default:
+      return 'plain'
+  }
+}
+
+// Tokenizes with the TypeScript scanner and splits the tokens into lines. Without the parser's
+// context, JSX text and code after `${...}` in templates are only approximately colored.
+export function highlightSource(content: string, filePath: string): HighlightToken[][] {
+  const scriptKind = getScriptKind(filePath)
+  const variant = scriptKind === ts.ScriptKind.TSX || scriptKind === ts.ScriptKind.JSX ? ts.LanguageVariant.JSX : ts.LanguageVariant.Standard
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, false, variant, content)
+  const lines: HighlightToken[][] = [[]]
+
+  for (let kind = scanner.scan(); kind !== ts.SyntaxKind.EndOfFileToken; kind = scanner.scan()) {
+    const text = content.slice(scanner.getTokenStart(), scanner.getTokenEnd())
+    const tokenKind = classifyToken(kind, text)
+    // Multi-line comments and templates are split so each line renders on its own
+    text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([])
+      const line = part.replace(/\r$/, '')
+      if (line) lines[lines.length - 1].push({ text: line, kind: tokenKind })
+    })
+  }
+
+  return lines
+}
@@ -5,6 +5,11 @@ export interface PageFlow {
   filePath: string
   type: 'page' | 'layout' | 'modal' | 'redirect'
   connections: PageConnection[]
+  unresolvedConnections?: UnresolvedConnection[] // Targets that could not be worked out statically
+  brokenLinks?: BrokenLink[] // Targets that resolve to a path no route matches
+  issues?: PageIssue[] // Reachability problems found from the entry pages
+  location?: SourceLocation // The page component's declaration
+  parentId?: string // Enclosing layout page, if any
   position?: { x: number; y: number }
   metadata: {
     title: string
@@ -13,16 +18,62 @@ export interface PageFlow {
     hasParams: boolean
     isProtected: boolean
     complexity: 'low' | 'medium' | 'high'
+    metrics?: PageMetrics // Absent from demo data and analyses saved before metrics existed
     userActions: string[]
     entryPoints: string[]
   }
 }
 
+// Measured over the page component's declaration, not the whole file
+export interface PageMetrics {
+  linesOfCode: number // Without blank and comment-only lines
+  cyclomaticComplexity: number
+  hookCount: number
+  jsxElementCount: number
+  navigationCount: number // Links, navigate() calls and redirects, resolved or not
+  importedComponentCount: number // Distinct imported components it renders
+}
+
+export type PageMetric = keyof PageMetrics
+
+// A page is rated at the highest level any of its metrics reaches
+export type ComplexityThresholds = Record<PageMetric, { medium: number; high: number }>
+
 export interface PageConnection {
   targetPageId: string
   type: 'navigation' | 'redirect' | 'modal' | 'conditional'
   trigger: string // e.g., "button click", "form submit", "auto redirect"
   condition?: string // e.g., "authenticated", "form valid"
+  location?: SourceLocation // The link or call that creates the connection
+}
+
+// 1-based lines and columns, as editors show them
+export interface SourceLocation {
+  filePath: string
+  startLine: number
+  startColumn: number
+  endLine: number
+  endColumn: number
+}
+
+export interface UnresolvedConnection {
+  expression: string // Source text of the target, e.g. "getNextStep()" or "location.state.from"
+  type: PageConnection['type']
+  trigger: string
+  condition?: string // Guard around the link or call, as on PageConnection
+  location?: SourceLocation
+}
+
+export type PageIssue = 'unreachable' | 'orphan' | 'dead-end'
+
+// Dangling edge from a page to a path with no matching route, e.g. a `<Link to="/setings">` typo
+export interface BrokenLink {
+  target: string // Resolved path, e.g. '/setings'
+  expression: string
+  type: PageConnection['type']
+  trigger: string
+  condition?: string // Guard around the link or call, as on PageConnection
+  location: SourceLocation
 }
 
 export interface UserJourney {
@@ -42,26 +93,217 @@ export interface RouteInfo {
   children?: RouteInfo[]
   guards?: string[]
   params?: string[]
+  isIndex?: boolean
+  isLayout?: boolean
+  slot?: string // Next.js parallel route slot, e.g. 'modal' for @modal
+  isIntercepting?: boolean
+  boundaries?: ('loading' | 'error' | 'not-found')[]
+  location?: SourceLocation // The route object or <Route> element in the router config
+  redirect?: RouteRedirect // Routes whose element is a <Navigate> or <Redirect>
+  unresolvedPath?: string // Source text of a `path` that could not be worked out statically
+}
+
+export interface RouteRedirect {
+  target?: string // Undefined when the `to` expression could not be worked out statically
+  expression: string
+  location: SourceLocation
+}
+
+export type SourceType = 'github' | 'directory' | 'zip'
+
+export type AnalysisMode = 'live' | 'demo'
+
+export type AnalysisErrorCode =
+  | 'invalid-url'
+  | 'unauthorized' // 401: missing, mistyped or expired token
+  | 'forbidden' // 403: token lacks access to the repository
+  | 'rate-limited'
+  | 'not-found'
+  | 'network'
+  | 'cancelled' // Aborted before any file was read; later aborts return a partial result
+  | 'unknown'
+
+export interface AnalysisError {
+  code: AnalysisErrorCode
+  message: string
+  retryable: boolean
+  status?: number // HTTP status, for GitHub errors
+  resetAt?: string // ISO timestamp, for rate limits
 }
 
 export interface FlowAnalysisResult {
   repoUrl: string
   repoName: string
+  mode: AnalysisMode // 'demo' results are sample data, never the analyzed project
+  error?: AnalysisError // Demo only: why the live analysis it stands in for failed
+  partial?: boolean // Cancelled mid-analysis or some files failed to read: only the files read were analyzed
+  failedFiles?: number // Files that could not be read, e.g. after network errors
+  sourceType?: SourceType
+  branch?: string
+  ref?: GitRef // GitHub only: the exact ref and commit that was analyzed
   pages: PageFlow[]
   routes: RouteInfo[]
+  sources?: Record<string, string> // Contents of the page files, for the source viewer
   userJourneys: UserJourney[]
   totalFiles: number
   analyzedFiles: number
   timestamp: string
 }
 
+export interface AnalysisOptions {
+  include?: string[] // Globs a file must match to be analyzed; defaults to all script files
+  exclude?: string[] // Globs that drop a file even if included
+  concurrency?: number // Parallel file reads
+  complexityThresholds?: Partial<ComplexityThresholds> // Overrides the default thresholds per metric
+  signal?: AbortSignal // Stops network requests; the files read so far are still analyzed
+  onProgress?: (progress: AnalysisProgress) => void
+}
+
+export type AnalysisPhase = 'discovering' | 'fetching' | 'parsing' | 'connecting' | 'done'
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase
+  filesDiscovered: number
+  filesToFetch: number // Discovered files that pass the include/exclude filters
+  filesFetched: number
+  filesFailed: number // Reads that failed; the analysis goes on without them
+  filesParsed: number
+  connectionsResolved: number
+}
+
+export interface GitHubAnalysisOptions extends AnalysisOptions {
+  ref?: GitRef // Branch, tag or commit picked in the Dashboard; defaults to the URL's ref or the default branch
+}
+
+// Envelope written by "Save analysis"; `version` is bumped whenever FlowAnalysisResult changes shape
+export interface AnalysisFile {
+  format: 'flowscope-analysis'
+  version: number
+  savedAt: string
+  result: FlowAnalysisResult
+}
+
+// Where the user left the canvas: dragged card positions and zoom level
+export interface CanvasLayout {
+  zoom: number
+  positions: Record<string, { x: number; y: number }>
+}
+
+export interface AnalysisHistoryEntry {
+  id: string // `${repoUrl}#${branch}@${timestamp}`
+  name: string
+  repoUrl: string
+  branch: string
+  timestamp: string
+  updatedAt: string
+  pageCount: number
+  routeCount: number
+  result: FlowAnalysisResult
+  layout?: CanvasLayout
+}
+
+export type ChangeStatus = 'added' | 'removed' | 'changed'
+
+export interface PageChange {
+  key: string // filePath#component, stable across analyses unlike page ids
+  status: ChangeStatus
+  before?: PageFlow
+  after?: PageFlow
+  details: string[]
+}
+
+export interface ConnectionChange {
+  sourceKey: string
+  targetKey: string
+  status: ChangeStatus
+  before?: PageConnection
+  after?: PageConnection
+  details: string[]
+}
+
+export interface RouteChange {
+  key: string // path (plus @slot for parallel routes), index/layout kind and filePath#component
+  status: ChangeStatus
+  before?: RouteInfo
+  after?: RouteInfo
+  details: string[]
+}
+
+export interface AnalysisDiff {
+  base: FlowAnalysisResult
+  head: FlowAnalysisResult
+  pages: PageChange[]
+  connections: ConnectionChange[]
+  routes: RouteChange[]
+  // Head result plus removed pages and connections, ids as rendered on the canvas
+  view: FlowAnalysisResult
+  pageStatus: Record<string, ChangeStatus>
+  connectionStatus: Record<string, ChangeStatus>
+}
+
 export interface GitHubRepo {
   url: string
   owner: string
   name: string
+  branch?: string // Ref the files are read at: branch name, tag name or commit sha
+  refPath?: string // Text after /tree/ or /commit/ in the URL; branch names may contain slashes
+}
+
+export type GitRefType = 'branch' | 'tag' | 'commit'
+
+export interface GitRef {
+  type: GitRefType
+  name: string // Branch or tag name, or the abbreviated sha of a commit
+  sha: string
+  message?: string // Commits only: first line of the commit message
+  date?: string
+}
+
+export interface GitHubRefList {
+  defaultBranch: string
+  branches: GitRef[]
+  tags: GitRef[]
+  commits: GitRef[] // Recent commits on the default branch
+}
+
+export interface GitHubRateLimit {
+  limit: number
+  remaining: number
+  resetAt: string // ISO timestamp
+  authenticated: boolean
+}
+
+// Files of a local source read on the page, since folder handles and zip providers stay there
+export interface SourceSnapshot {
+  type: SourceType
+  name: string
+  url: string
   branch?: string
+  paths: string[] // Every listed file, including the ones left unread by the filters
+  files: Record<string, string> // Contents of the files that pass the filters
+  partial?: boolean // Reading was cancelled part way or some files failed to read
+  failedFiles?: number
 }
 
+export type AnalysisSource =
+  | { kind: 'github'; url: string; ref?: GitRef }
+  | { kind: 'snapshot'; snapshot: SourceSnapshot }
+
+// Callbacks and signals cannot cross into a worker; progress and cancel travel as messages
+export type WorkerAnalysisOptions = Omit<AnalysisOptions, 'signal' | 'onProgress'>
+
+// Page → analysis worker. `id` ties every reply to its run.
+export type AnalysisWorkerRequest =
+  | { type: 'start'; id: number; source: AnalysisSource; options: WorkerAnalysisOptions; githubToken: string | null }
+  | { type: 'cancel'; id: number }
+
+// Analysis worker → page
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; id: number; progress: AnalysisProgress }
+  | { type: 'rate-limit'; id: number; rateLimit: GitHubRateLimit }
+  | { type: 'result'; id: number; result: FlowAnalysisResult }
+  | { type: 'error'; id: number; error: AnalysisError }
+
 // Legacy types for backward compatibility
 export type PageNode = PageFlow
 export type AnalysisResult = FlowAnalysisResult
\ No newline at end of file
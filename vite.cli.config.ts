@@ -0,0 +1,25 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Bundles the headless CLI for Node; dependencies stay external and load from node_modules
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  // public/ holds the web app's static assets, which the CLI does not serve
+  publicDir: false,
+  build: {
+    ssr: 'cli/flowscope.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'flowscope.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});